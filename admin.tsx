@@ -0,0 +1,634 @@
+// The /admin pages: an editor for data.json backed by the local admin server
+// (scripts/admin-server.ts). Loaded on demand so visitors never download it.
+import React, { useEffect, useMemo, useState } from 'react';
+import { PageMeta, useT } from './index.tsx';
+import { LOCALES, type Language } from './locales/registry.ts';
+import type { TranslationKey } from './locales/keys.ts';
+import { localize } from './locales/translate.ts';
+import { AVAILABILITY, LIST_SPEC_KEYS, isRecord, validateAppData, type AppData, type LocalizedString, type SpecDefinition } from './data-schema.ts';
+import { AVAILABILITY_LABELS } from './product-format.ts';
+
+const ADMIN_API = '/api/data';
+
+// Translations edited side by side; other languages in an entry are kept as they are.
+const EDITOR_LANGUAGES: Language[] = ['en', 'ar'];
+
+type SectionKey = 'products' | 'services' | 'faq' | 'partners' | 'slides';
+// Entries are edited as plain records: each field kind narrows the value it reads,
+// and validateAppData checks what is written back.
+type Entry = Record<string, unknown>;
+
+type FieldDefinition = {
+  key: string;
+  label: TranslationKey;
+  kind: 'text' | 'number' | 'localized' | 'longText' | 'image' | 'images' | 'features' | 'checkbox' | 'availability' | 'mainCategory' | 'subCategory' | 'specs';
+  optional?: boolean;
+};
+
+interface SectionDefinition {
+  key: SectionKey;
+  label: TranslationKey;
+  fields: FieldDefinition[];
+  create: () => Entry;
+  title: (entry: Entry, lang: Language) => string;
+}
+
+type DiffLine = { type: 'same' | 'added' | 'removed'; text: string } | { type: 'skip'; count: number };
+
+interface Review {
+  issues: string[];
+  diff: DiffLine[];
+  conflict: boolean;
+}
+
+type SaveStatus = 'idle' | 'checking' | 'saving' | 'saved' | 'conflict' | 'error';
+
+const emptyLocalized = (): LocalizedString => ({ en: '', ar: '' });
+
+const asText = (value: unknown) => typeof value === 'string' ? value : '';
+const isLocalized = (value: unknown): value is LocalizedString =>
+  isRecord(value) && Object.values(value).every(text => typeof text === 'string');
+const asLocalized = (value: unknown) => isLocalized(value) ? value : undefined;
+const asList = <T,>(value: unknown): T[] => Array.isArray(value) ? value as T[] : [];
+
+const SECTIONS: SectionDefinition[] = [
+  {
+    key: 'products',
+    label: 'navProducts',
+    fields: [
+      { key: 'id', label: 'adminFieldId', kind: 'text' },
+      { key: 'name', label: 'adminFieldName', kind: 'localized' },
+      { key: 'model', label: 'productModel', kind: 'text', optional: true },
+      { key: 'manufacturer', label: 'productManufacturer', kind: 'localized' },
+      { key: 'mainCategory', label: 'adminFieldMainCategory', kind: 'mainCategory' },
+      { key: 'subCategory', label: 'adminFieldSubCategory', kind: 'subCategory' },
+      { key: 'category', label: 'adminFieldCategoryLabel', kind: 'localized' },
+      { key: 'isFeatured', label: 'adminFieldFeatured', kind: 'checkbox' },
+      { key: 'price', label: 'adminFieldPrice', kind: 'number' },
+      { key: 'priceOnRequest', label: 'priceOnRequest', kind: 'checkbox' },
+      { key: 'availability', label: 'adminFieldAvailability', kind: 'availability' },
+      { key: 'leadTimeDays', label: 'adminFieldLeadTime', kind: 'number' },
+      { key: 'warrantyMonths', label: 'adminFieldWarranty', kind: 'number' },
+      { key: 'image', label: 'adminFieldImage', kind: 'image' },
+      { key: 'otherImages', label: 'adminFieldOtherImages', kind: 'images' },
+      { key: 'video', label: 'adminFieldVideo', kind: 'text', optional: true },
+      { key: 'spinImages', label: 'adminFieldSpinImages', kind: 'images' },
+      { key: 'shortDescription', label: 'adminFieldDescription', kind: 'longText' },
+      { key: 'countryOfOrigin', label: 'productOrigin', kind: 'localized' },
+      { key: 'features', label: 'productFeatures', kind: 'features' },
+      { key: 'specs', label: 'productSpecs', kind: 'specs' },
+    ],
+    create: () => ({
+      id: '',
+      name: emptyLocalized(),
+      image: '',
+      manufacturer: emptyLocalized(),
+      category: emptyLocalized(),
+      shortDescription: emptyLocalized(),
+      countryOfOrigin: emptyLocalized(),
+      features: [],
+    }),
+    title: (entry, lang) => localize(asLocalized(entry.name) ?? emptyLocalized(), lang) || asText(entry.id),
+  },
+  {
+    key: 'services',
+    label: 'navServices',
+    fields: [
+      { key: 'id', label: 'adminFieldId', kind: 'text' },
+      { key: 'title', label: 'adminFieldTitle', kind: 'localized' },
+      { key: 'description', label: 'adminFieldDescription', kind: 'longText' },
+      { key: 'image', label: 'adminFieldImage', kind: 'image' },
+    ],
+    create: () => ({ id: '', title: emptyLocalized(), description: emptyLocalized(), image: '' }),
+    title: (entry, lang) => localize(asLocalized(entry.title) ?? emptyLocalized(), lang) || asText(entry.id),
+  },
+  {
+    key: 'faq',
+    label: 'navFAQ',
+    fields: [
+      { key: 'question', label: 'adminFieldQuestion', kind: 'localized' },
+      { key: 'answer', label: 'adminFieldAnswer', kind: 'longText' },
+    ],
+    create: () => ({ question: emptyLocalized(), answer: emptyLocalized() }),
+    title: (entry, lang) => localize(asLocalized(entry.question) ?? emptyLocalized(), lang),
+  },
+  {
+    key: 'partners',
+    label: 'adminPartners',
+    fields: [
+      { key: 'name', label: 'adminFieldName', kind: 'text' },
+      { key: 'logo', label: 'adminFieldLogo', kind: 'image' },
+    ],
+    create: () => ({ name: '', logo: '' }),
+    title: (entry) => asText(entry.name),
+  },
+  {
+    key: 'slides',
+    label: 'adminSlides',
+    fields: [
+      { key: 'image', label: 'adminFieldImage', kind: 'image' },
+      { key: 'title', label: 'adminFieldTitle', kind: 'localized' },
+      { key: 'subtitle', label: 'adminFieldSubtitle', kind: 'localized' },
+      { key: 'ctaLink', label: 'adminFieldCtaLink', kind: 'text', optional: true },
+      { key: 'ctaText', label: 'adminFieldCtaText', kind: 'localized', optional: true },
+    ],
+    create: () => ({ image: '', title: emptyLocalized(), subtitle: emptyLocalized() }),
+    title: (entry, lang) => localize(asLocalized(entry.title) ?? emptyLocalized(), lang),
+  },
+];
+
+// Issues from validateAppData start with the path of the offending value, e.g. "data.products[3].name.en: …".
+const issuesForEntry = (issues: string[], section: SectionKey, index: number) => {
+  const prefix = `data.${section}[${index}]`;
+  return issues.filter(issue => issue.startsWith(`${prefix}.`) || issue.startsWith(`${prefix}:`));
+};
+
+const LocalizedInput: React.FC<{
+  value: LocalizedString | undefined;
+  onChange: (value: LocalizedString) => void;
+  multiline?: boolean;
+}> = ({ value, onChange, multiline }) => (
+    <div className="admin-localized">
+        {EDITOR_LANGUAGES.map(language => {
+            const props = {
+                value: value?.[language] ?? '',
+                dir: LOCALES[language].dir,
+                lang: language,
+                'aria-label': LOCALES[language].englishName,
+                onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => onChange({ ...value, en: value?.en ?? '', [language]: e.target.value }),
+            };
+            return (
+                <label key={language} className="admin-localized-field">
+                    <span className="admin-language-tag">{LOCALES[language].nativeName}</span>
+                    {multiline ? <textarea rows={3} {...props} /> : <input type="text" {...props} />}
+                </label>
+            );
+        })}
+    </div>
+);
+
+const ImageInput: React.FC<{ value: string; onChange: (value: string) => void; label: string }> = ({ value, onChange, label }) => (
+    <div className="admin-image-field">
+        <input type="text" value={value} onChange={e => onChange(e.target.value)} aria-label={label} placeholder="https://" />
+        {value && <img src={value} alt="" className="admin-image-preview" loading="lazy" />}
+    </div>
+);
+
+const SpecsInput: React.FC<{
+  value: Record<string, unknown> | undefined;
+  definitions: SpecDefinition[];
+  onChange: (value: Record<string, unknown> | undefined) => void;
+}> = ({ value, definitions, onChange }) => {
+    const { t, lang } = useT();
+    const [listDrafts, setListDrafts] = useState<Record<string, string>>({});
+
+    const update = (key: string, next: unknown) => {
+        const specs = { ...value, [key]: next };
+        if (next === undefined) {
+            delete specs[key];
+        }
+        onChange(Object.keys(specs).length > 0 ? specs : undefined);
+    };
+
+    // Empty input clears the spec; anything else that is not a number is left for validation to report.
+    const parseNumber = (text: string) => text.trim() === '' ? undefined : Number(text);
+
+    return (
+        <div className="admin-specs">
+            {definitions.map(definition => {
+                const label = `${localize(definition.label, lang)}${definition.unit ? ` (${localize(definition.unit, lang)})` : ''}`;
+                const current = value?.[definition.key];
+                let control;
+                if (definition.type === 'enum') {
+                    control = (
+                        <select value={asText(current)} onChange={e => update(definition.key, e.target.value || undefined)}>
+                            <option value="">{t('adminNone')}</option>
+                            {definition.options?.map(option => (
+                                <option key={option.value} value={option.value}>{localize(option.label, lang)}</option>
+                            ))}
+                        </select>
+                    );
+                } else if (definition.type === 'boolean') {
+                    control = (
+                        <select value={typeof current === 'boolean' ? String(current) : ''} onChange={e => update(definition.key, e.target.value === '' ? undefined : e.target.value === 'true')}>
+                            <option value="">{t('adminNone')}</option>
+                            <option value="true">{t('specYes')}</option>
+                            <option value="false">{t('specNo')}</option>
+                        </select>
+                    );
+                } else if (LIST_SPEC_KEYS.includes(definition.key)) {
+                    // Keep the typed text while editing so "40, " is not reformatted mid-entry.
+                    const text = listDrafts[definition.key] ?? (Array.isArray(current) ? current.join(', ') : '');
+                    control = (
+                        <input
+                            type="text"
+                            value={text}
+                            placeholder="40, 43, 46"
+                            onChange={e => {
+                                setListDrafts(prev => ({ ...prev, [definition.key]: e.target.value }));
+                                const values = e.target.value.split(',').map(part => part.trim()).filter(Boolean).map(Number);
+                                update(definition.key, values.length > 0 ? values : undefined);
+                            }}
+                        />
+                    );
+                } else {
+                    control = <input type="number" value={typeof current === 'number' ? current : ''} onChange={e => update(definition.key, parseNumber(e.target.value))} />;
+                }
+                return (
+                    <label key={definition.key} className="admin-field">
+                        <span className="admin-field-label">{label}</span>
+                        {control}
+                    </label>
+                );
+            })}
+        </div>
+    );
+};
+
+const EntryEditor: React.FC<{
+  section: SectionDefinition;
+  entry: Entry;
+  data: AppData;
+  onChange: (entry: Entry) => void;
+}> = ({ section, entry, data, onChange }) => {
+    const { t, lang } = useT();
+
+    // Optional fields are removed rather than saved empty.
+    const set = (key: string, value: unknown) => {
+        const next = { ...entry, [key]: value };
+        if (value === undefined) {
+            delete next[key];
+        }
+        onChange(next);
+    };
+
+    const topCategories = data.categories.filter(category => !category.parent);
+    const subCategories = data.categories.filter(category => category.parent && category.parent === entry.mainCategory);
+
+    const renderField = (field: FieldDefinition) => {
+        const value = entry[field.key];
+        switch (field.kind) {
+            case 'text':
+                return <input type="text" value={asText(value)} onChange={e => set(field.key, field.optional && !e.target.value ? undefined : e.target.value)} />;
+            case 'localized':
+            case 'longText':
+                return (
+                    <LocalizedInput
+                        value={asLocalized(value)}
+                        multiline={field.kind === 'longText'}
+                        onChange={next => set(field.key, field.optional && Object.values(next).every(text => !text) ? undefined : next)}
+                    />
+                );
+            case 'image':
+                return <ImageInput value={asText(value)} label={t(field.label)} onChange={next => set(field.key, next)} />;
+            case 'images': {
+                const images = asList<string>(value);
+                const setImages = (next: string[]) => set(field.key, next.length > 0 ? next : undefined);
+                return (
+                    <div className="admin-list-field">
+                        {images.map((image, index) => (
+                            <div key={index} className="admin-list-row">
+                                <ImageInput value={image} label={`${t(field.label)} ${index + 1}`} onChange={next => setImages(images.map((old, i) => i === index ? next : old))} />
+                                <button type="button" className="admin-link-button" onClick={() => setImages(images.filter((_, i) => i !== index))}>{t('adminRemove')}</button>
+                            </div>
+                        ))}
+                        <button type="button" className="admin-secondary-button" onClick={() => setImages([...images, ''])}>{t('adminAddImage')}</button>
+                    </div>
+                );
+            }
+            case 'features': {
+                const features = asList<LocalizedString>(value);
+                return (
+                    <div className="admin-list-field">
+                        {features.map((feature, index) => (
+                            <div key={index} className="admin-list-row">
+                                <LocalizedInput value={feature} onChange={next => set(field.key, features.map((old, i) => i === index ? next : old))} />
+                                <button type="button" className="admin-link-button" onClick={() => set(field.key, features.filter((_, i) => i !== index))}>{t('adminRemove')}</button>
+                            </div>
+                        ))}
+                        <button type="button" className="admin-secondary-button" onClick={() => set(field.key, [...features, emptyLocalized()])}>{t('adminAddFeature')}</button>
+                    </div>
+                );
+            }
+            case 'number':
+                // Empty clears the field; anything else that is not a number is left for validation to report.
+                return <input type="number" min={0} step="any" value={typeof value === 'number' ? value : ''} onChange={e => set(field.key, e.target.value === '' ? undefined : Number(e.target.value))} />;
+            case 'checkbox':
+                return <input type="checkbox" checked={!!value} onChange={e => set(field.key, e.target.checked || undefined)} />;
+            case 'availability':
+                return (
+                    <select value={asText(value)} onChange={e => set(field.key, e.target.value || undefined)}>
+                        <option value="">{t('adminNone')}</option>
+                        {AVAILABILITY.map(availability => (
+                            <option key={availability} value={availability}>{t(AVAILABILITY_LABELS[availability])}</option>
+                        ))}
+                    </select>
+                );
+            case 'mainCategory':
+            case 'subCategory': {
+                const options = field.kind === 'mainCategory' ? topCategories : subCategories;
+                return (
+                    <select
+                        value={asText(value)}
+                        onChange={e => {
+                            const next = { ...entry, [field.key]: e.target.value || undefined };
+                            // A subcategory only makes sense under the main category it belongs to.
+                            if (field.kind === 'mainCategory') {
+                                delete next.subCategory;
+                            }
+                            onChange(next);
+                        }}
+                    >
+                        <option value="">{t('adminNone')}</option>
+                        {options.map(category => (
+                            <option key={category.id} value={category.id}>{localize(category.name, lang)}</option>
+                        ))}
+                    </select>
+                );
+            }
+            case 'specs':
+                return <SpecsInput value={isRecord(value) ? value : undefined} definitions={data.specDefinitions} onChange={next => set(field.key, next)} />;
+        }
+    };
+
+    return (
+        <div className="admin-editor-fields">
+            {section.fields.map(field => (
+                <div key={field.key} className={`admin-field admin-field-${field.kind}`}>
+                    <span className="admin-field-label">{t(field.label)}</span>
+                    {renderField(field)}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const DiffView: React.FC<{ diff: DiffLine[] }> = ({ diff }) => {
+    const { t } = useT();
+    return (
+        <pre className="admin-diff" dir="ltr">
+            {diff.map((line, index) => line.type === 'skip'
+                ? <div key={index} className="admin-diff-skip">{t('adminDiffSkipped', { count: line.count })}</div>
+                : <div key={index} className={`admin-diff-${line.type}`}>{line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}</div>
+            )}
+        </pre>
+    );
+};
+
+const AdminPage: React.FC<{ lang: Language }> = ({ lang }) => {
+    const { t } = useT();
+    const [saved, setSaved] = useState<AppData | null>(null);
+    const [draft, setDraft] = useState<AppData | null>(null);
+    const [version, setVersion] = useState('');
+    const [loadFailed, setLoadFailed] = useState(false);
+    const [sectionKey, setSectionKey] = useState<SectionKey>('products');
+    const [selected, setSelected] = useState<number | null>(null);
+    const [review, setReview] = useState<Review | null>(null);
+    const [status, setStatus] = useState<SaveStatus>('idle');
+
+    const load = async () => {
+        setLoadFailed(false);
+        try {
+            const response = await fetch(ADMIN_API);
+            if (!response.ok) {
+                throw new Error(`HTTP error! status: ${response.status}`);
+            }
+            const body = await response.json();
+            setSaved(body.data);
+            setDraft(body.data);
+            setVersion(body.version);
+            setReview(null);
+            setStatus('idle');
+        } catch (error) {
+            console.error('Could not reach the admin server:', error);
+            setLoadFailed(true);
+        }
+    };
+
+    useEffect(() => {
+        load();
+    }, []);
+
+    const issues = useMemo(() => draft ? validateAppData(draft) : [], [draft]);
+    const dirty = useMemo(() => JSON.stringify(draft) !== JSON.stringify(saved), [draft, saved]);
+
+    useEffect(() => {
+        if (!dirty) {
+            return;
+        }
+        const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+        window.addEventListener('beforeunload', warn);
+        return () => window.removeEventListener('beforeunload', warn);
+    }, [dirty]);
+
+    const meta = <PageMeta lang={lang} title={t('adminTitle')} description={t('adminIntro')} noIndex />;
+
+    if (loadFailed) {
+        return (
+            <div className="page-container container admin-page" role="alert">
+                {meta}
+                <h1 className="page-title">{t('adminTitle')}</h1>
+                <div className="title-divider"></div>
+                <p className="section-subtitle">{t('adminServerError')}</p>
+                <button className="cta-button" onClick={load}>{t('loadErrorRetry')}</button>
+            </div>
+        );
+    }
+
+    if (!draft) {
+        return <div className="page-container container admin-page">{meta}<p>{t('adminLoading')}</p></div>;
+    }
+
+    const section = SECTIONS.find(candidate => candidate.key === sectionKey)!;
+    const entries: Entry[] = draft[sectionKey] ?? [];
+
+    const setEntries = (next: Entry[]) => {
+        setDraft({ ...draft, [sectionKey]: next });
+        setStatus('idle');
+    };
+
+    const addEntry = () => {
+        setEntries([...entries, section.create()]);
+        setSelected(entries.length);
+    };
+
+    const deleteEntry = (index: number) => {
+        const name = section.title(entries[index], lang) || t('adminUntitled');
+        if (!window.confirm(t('adminConfirmDelete', { name }))) {
+            return;
+        }
+        setEntries(entries.filter((_, i) => i !== index));
+        setSelected(null);
+    };
+
+    const moveEntry = (index: number, offset: number) => {
+        const next = [...entries];
+        [next[index], next[index + offset]] = [next[index + offset], next[index]];
+        setEntries(next);
+        setSelected(index + offset);
+    };
+
+    const openReview = async () => {
+        setStatus('checking');
+        try {
+            const response = await fetch(`${ADMIN_API}/preview`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ data: draft, version }),
+            });
+            if (!response.ok) {
+                throw new Error(`HTTP error! status: ${response.status}`);
+            }
+            setReview(await response.json());
+            setStatus('idle');
+        } catch (error) {
+            console.error('Could not preview changes:', error);
+            setStatus('error');
+        }
+    };
+
+    const save = async () => {
+        setStatus('saving');
+        try {
+            const response = await fetch(ADMIN_API, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ data: draft, version }),
+            });
+            if (response.status === 409) {
+                setStatus('conflict');
+                return;
+            }
+            const body = await response.json();
+            if (response.status === 422) {
+                setReview(prev => prev && { ...prev, issues: body.issues });
+                setStatus('idle');
+                return;
+            }
+            if (!response.ok) {
+                throw new Error(body.error ?? `HTTP error! status: ${response.status}`);
+            }
+            setVersion(body.version);
+            setSaved(draft);
+            setReview(null);
+            setStatus('saved');
+        } catch (error) {
+            console.error('Could not save changes:', error);
+            setStatus('error');
+        }
+    };
+
+    const count = issues.length;
+    const selectedEntry = selected !== null ? entries[selected] : undefined;
+    const entryIssues = selected !== null ? issuesForEntry(issues, sectionKey, selected) : [];
+
+    return (
+        <div className="page-container container admin-page">
+            {meta}
+            <h1 className="page-title">{t('adminTitle')}</h1>
+            <div className="title-divider"></div>
+            <p className="section-subtitle">{t('adminIntro')}</p>
+
+            <div className="admin-toolbar">
+                <div className="admin-status" role="status">
+                    {count > 0 && <span className="admin-status-issues">{t('adminIssues', { count })}</span>}
+                    {count === 0 && dirty && <span>{t('adminUnsaved')}</span>}
+                    {status === 'saved' && <span className="admin-status-saved">{t('adminSaved')}</span>}
+                    {status === 'error' && <span className="admin-status-issues">{t('adminSaveError')}</span>}
+                </div>
+                <button type="button" className="admin-secondary-button" disabled={!dirty} onClick={() => { setDraft(saved); setReview(null); }}>{t('adminDiscard')}</button>
+                <button type="button" className="cta-button" disabled={!dirty || count > 0 || status === 'checking'} onClick={openReview}>
+                    {status === 'checking' ? t('adminChecking') : t('adminReview')}
+                </button>
+            </div>
+
+            {status === 'conflict' && (
+                <div className="admin-alert" role="alert">
+                    <p>{t('adminConflict')}</p>
+                    <button type="button" className="admin-secondary-button" onClick={load}>{t('adminReload')}</button>
+                </div>
+            )}
+
+            {review ? (
+                <section className="admin-review" aria-labelledby="admin-review-title">
+                    <h2 id="admin-review-title">{t('adminReviewTitle')}</h2>
+                    {review.issues.length > 0 && (
+                        <ul className="admin-issues">
+                            {review.issues.map(issue => <li key={issue}>{issue}</li>)}
+                        </ul>
+                    )}
+                    {review.conflict && <p className="admin-alert">{t('adminConflict')}</p>}
+                    {review.issues.length === 0 && (review.diff.some(line => line.type === 'added' || line.type === 'removed')
+                        ? <DiffView diff={review.diff} />
+                        : <p>{t('adminNoChanges')}</p>)}
+                    <div className="admin-toolbar">
+                        <button type="button" className="admin-secondary-button" onClick={() => setReview(null)}>{t('adminBackToEditor')}</button>
+                        <button type="button" className="cta-button" disabled={review.issues.length > 0 || review.conflict || status === 'saving'} onClick={save}>
+                            {status === 'saving' ? t('adminSaving') : t('adminSave')}
+                        </button>
+                    </div>
+                </section>
+            ) : (
+                <>
+                    <div className="admin-tabs" role="tablist">
+                        {SECTIONS.map(candidate => (
+                            <button
+                                key={candidate.key}
+                                type="button"
+                                role="tab"
+                                aria-selected={candidate.key === sectionKey}
+                                className={candidate.key === sectionKey ? 'active' : ''}
+                                onClick={() => { setSectionKey(candidate.key); setSelected(null); }}
+                            >
+                                {t(candidate.label)} ({(draft[candidate.key] ?? []).length})
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="admin-layout">
+                        <div className="admin-entry-list">
+                            <ol>
+                                {entries.map((entry, index) => (
+                                    <li key={index} className={`${index === selected ? 'active' : ''} ${issuesForEntry(issues, sectionKey, index).length > 0 ? 'has-issues' : ''}`}>
+                                        <button type="button" className="admin-entry-title" onClick={() => setSelected(index)}>
+                                            {section.title(entry, lang) || t('adminUntitled')}
+                                        </button>
+                                        <div className="admin-entry-actions">
+                                            <button type="button" aria-label={t('adminMoveUp')} title={t('adminMoveUp')} disabled={index === 0} onClick={() => moveEntry(index, -1)}>↑</button>
+                                            <button type="button" aria-label={t('adminMoveDown')} title={t('adminMoveDown')} disabled={index === entries.length - 1} onClick={() => moveEntry(index, 1)}>↓</button>
+                                            <button type="button" aria-label={t('adminDelete')} title={t('adminDelete')} onClick={() => deleteEntry(index)}>✕</button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ol>
+                            <button type="button" className="admin-secondary-button" onClick={addEntry}>{t('adminAdd')}</button>
+                        </div>
+
+                        <div className="admin-editor">
+                            {selectedEntry ? (
+                                <>
+                                    {entryIssues.length > 0 && (
+                                        <ul className="admin-issues" dir="ltr">
+                                            {entryIssues.map(issue => <li key={issue}>{issue}</li>)}
+                                        </ul>
+                                    )}
+                                    <EntryEditor
+                                        key={`${sectionKey}-${selected}`}
+                                        section={section}
+                                        entry={selectedEntry}
+                                        data={draft}
+                                        onChange={entry => setEntries(entries.map((old, i) => i === selected ? entry : old))}
+                                    />
+                                </>
+                            ) : (
+                                <p className="admin-empty">{t('adminSelectEntry')}</p>
+                            )}
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default AdminPage;
@@ -0,0 +1,239 @@
+// The product assistant's model, behind an interface so the chat panel can run
+// against Gemini or against the deterministic local stub (tests, offline, no
+// assistant server). Both only see the catalog they are given in an AssistantContext.
+// The browser never talks to Gemini itself: it posts the question to a server that
+// holds the API key and the catalog (createHttpAssistantModel; scripts/assistant-server.ts).
+import type { AppData } from './data-schema.ts';
+import { LOCALES, type Language } from './locales/registry.ts';
+import { createTranslate, localize } from './locales/translate.ts';
+import { AVAILABILITY_LABELS, formatAmount, formatSpecValue, getDisplayPrice } from './product-format.ts';
+
+export interface AssistantMessage {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+// The catalog, flattened into the visitor's language. Built by buildAssistantContext.
+export interface AssistantContext {
+  lang: Language;
+  // The language's English name, for instructions ("Arabic").
+  languageName: string;
+  products: {
+    id: string;
+    // Unprefixed path of the product page, e.g. "/products/eos".
+    path: string;
+    name: string;
+    manufacturer: string;
+    model?: string;
+    category: string;
+    description: string;
+    features: string[];
+    // Label -> formatted value, e.g. "Frame weight" -> "9 kg".
+    specs: Record<string, string>;
+    // VAT-inclusive, e.g. "4,600 SAR", or a note that it is on request.
+    price?: string;
+    availability?: string;
+  }[];
+  services: { id: string; title: string; description: string }[];
+  faq: { question: string; answer: string }[];
+}
+
+export interface AssistantAnswer {
+  text: string;
+  // Products the answer recommends, as ids from the context.
+  productIds: string[];
+  // Where to send the customer next: a quote for chosen products, or a person for anything else.
+  handoff: 'quote' | 'contact' | null;
+}
+
+export interface AssistantModel {
+  answer(context: AssistantContext, messages: AssistantMessage[]): Promise<AssistantAnswer>;
+}
+
+// Most products shown with one answer.
+export const MAX_SUGGESTIONS = 3;
+
+// What the assistant server accepts; the HTTP model sends only the latest messages.
+export const MAX_MESSAGES = 12;
+export const MAX_MESSAGE_LENGTH = 1500;
+
+// The catalog in the visitor's language, as the assistant sees it. Boolean specs that are
+// false are left out, since "Foldable frame: No" reads as a match for "folding" to the stub.
+export const buildAssistantContext = (data: AppData, lang: Language): AssistantContext => {
+  const t = createTranslate(lang);
+  return {
+    lang,
+    languageName: LOCALES[lang].englishName,
+    products: data.products.map(product => {
+      const price = getDisplayPrice(product);
+      const amount = price !== undefined ? formatAmount(price) : '';
+      return {
+        id: product.id,
+        path: `/products/${product.id}`,
+        name: localize(product.name, lang),
+        manufacturer: localize(product.manufacturer, lang),
+        model: product.model,
+        category: localize(product.category, lang),
+        description: localize(product.shortDescription, lang),
+        features: product.features.map(feature => localize(feature, lang)),
+        specs: Object.fromEntries(data.specDefinitions
+          .filter(definition => product.specs?.[definition.key] !== undefined && product.specs[definition.key] !== false)
+          .map(definition => [localize(definition.label, lang), formatSpecValue(definition, product.specs!, lang, t)])),
+        price: amount ? t('priceAmount', { amount }) : product.priceOnRequest ? t('priceOnRequest') : undefined,
+        availability: product.availability && t(AVAILABILITY_LABELS[product.availability]),
+      };
+    }),
+    services: data.services.map(service => ({
+      id: service.id,
+      title: localize(service.title, lang),
+      description: localize(service.description, lang),
+    })),
+    faq: data.faq.map(entry => ({ question: localize(entry.question, lang), answer: localize(entry.answer, lang) })),
+  };
+};
+
+// Drops product ids the model made up and caps the number of suggestions.
+export const groundAnswer = (context: AssistantContext, answer: AssistantAnswer): AssistantAnswer => {
+  const known = new Set(context.products.map(product => product.id));
+  return {
+    ...answer,
+    productIds: [...new Set(answer.productIds)].filter(id => known.has(id)).slice(0, MAX_SUGGESTIONS),
+  };
+};
+
+// The context's products an answer recommends, in the answer's order, for linking.
+export const citedProducts = (context: AssistantContext, answer: AssistantAnswer) =>
+  answer.productIds.flatMap(id => context.products.filter(product => product.id === id));
+
+// An answer from JSON, checked because it comes from a model or over the network.
+const parseAnswer = (context: AssistantContext, value: unknown): AssistantAnswer => {
+  const answer = (value ?? {}) as Partial<AssistantAnswer>;
+  if (typeof answer.text !== 'string' || !Array.isArray(answer.productIds)) {
+    throw new Error('The assistant returned an answer in an unexpected shape');
+  }
+  return groundAnswer(context, {
+    text: answer.text,
+    productIds: answer.productIds.filter((id): id is string => typeof id === 'string'),
+    handoff: answer.handoff === 'quote' || answer.handoff === 'contact' ? answer.handoff : null,
+  });
+};
+
+const instructionsFor = (context: AssistantContext) => [
+  'You are the product assistant of Wheel of Excellence, a wheelchair and medical equipment company in Riyadh, Saudi Arabia.',
+  'Answer only from the catalog, services and FAQ in the JSON below. If they do not answer the question, say so plainly and set handoff to "contact". Never invent products, specifications, prices or stock.',
+  `Reply in ${context.languageName} whatever language the question is in, in two to four short sentences of plain text without markdown.`,
+  `Put the ids of the products you recommend, best first and at most ${MAX_SUGGESTIONS}, in productIds; refer to them by name in the text. Use "quote" as handoff when the customer could go ahead with these products, "contact" for repairs, medical advice, orders or anything the catalog cannot settle, and null otherwise.`,
+  '',
+  JSON.stringify({ products: context.products, services: context.services, faq: context.faq }),
+].join('\n');
+
+// Gemini through @google/genai, for the server side only: the API key must not reach the browser.
+export const createGeminiAssistantModel = (apiKey: string, model = 'gemini-2.5-flash'): AssistantModel => ({
+  answer: async (context, messages) => {
+    const { GoogleGenAI, Type } = await import('@google/genai');
+    const response = await new GoogleGenAI({ apiKey }).models.generateContent({
+      model,
+      contents: messages.map(message => ({ role: message.role === 'user' ? 'user' : 'model', parts: [{ text: message.text }] })),
+      config: {
+        systemInstruction: instructionsFor(context),
+        temperature: 0.2,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            text: { type: Type.STRING },
+            productIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+            handoff: { type: Type.STRING, enum: ['quote', 'contact'], nullable: true },
+          },
+          required: ['text', 'productIds', 'handoff'],
+        },
+      },
+    });
+    return parseAnswer(context, JSON.parse(response.text || '{}'));
+  },
+});
+
+// POST <url> { lang, messages } -> AssistantAnswer, to a server that answers from its
+// own copy of the catalog with its own model. The answer is grounded in `context`,
+// the same catalog as the site shows.
+export const createHttpAssistantModel = (url: string): AssistantModel => ({
+  answer: async (context, messages) => {
+    const recent = messages.slice(-MAX_MESSAGES);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      // The conversation starts with a question, and each message fits the server's limit.
+      body: JSON.stringify({
+        lang: context.lang,
+        messages: recent.slice(Math.max(0, recent.findIndex(message => message.role === 'user')))
+          .map(message => ({ ...message, text: message.text.slice(0, MAX_MESSAGE_LENGTH) })),
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Assistant request failed: HTTP ${response.status}`);
+    }
+    return parseAnswer(context, await response.json());
+  },
+});
+
+// Lowercased words without Arabic diacritics or the definite article, so "الكرسي" matches "كرسي".
+const words = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f\u064b-\u065f\u0670\u0640]/g, '')
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .split(/[^\p{L}\p{N}]+/u)
+    .map(word => word.length > 4 && word.startsWith('ال') ? word.slice(2) : word)
+    .filter(word => word.length >= 3);
+
+// Question words that say nothing about the product wanted, after normalizing as in `words`.
+const STOP_WORDS = new Set([
+  'which', 'what', 'where', 'when', 'how', 'the', 'and', 'for', 'with', 'you', 'your', 'have', 'has', 'can', 'use',
+  'need', 'want', 'does', 'are', 'there', 'any', 'that', 'this', 'from', 'into', 'sell',
+  'ماذا', 'هل', 'لديكم', 'عندكم', 'يمكنني', 'يمكن', 'اريد', 'احتاج', 'استخدم', 'يناسب', 'التي', 'الذي', 'هذا', 'هذه', 'على', 'الى',
+]);
+
+// A question word matches a product word that starts with its first four letters, so
+// "folds" finds "foldable", or that contains them, so "chair" finds "wheelchair". Shorter
+// words must match exactly, so "car" does not find "carbon".
+const matchesTerm = (term: string) => (word: string) => term.length < 4 ? word === term : word.includes(term);
+
+// Ranks products by the question's words they contain, weighting words that few
+// products share more heavily (so "chair" counts for little), and answers with
+// fixed phrases. The same question always gets the same answer.
+export const createStubAssistantModel = (phrases: (lang: Language) => { found: string; notFound: string }): AssistantModel => ({
+  answer: async (context, messages) => {
+    const question = [...messages].reverse().find(message => message.role === 'user')?.text || '';
+    const terms = [...new Set(words(question).filter(word => !STOP_WORDS.has(word)).map(word => word.slice(0, 4)))];
+    const documents = context.products.map(product => [...new Set(words([
+      product.name, product.manufacturer, product.model || '', product.category, product.description,
+      ...product.features, ...Object.entries(product.specs).flat(),
+    ].join(' ')))]);
+    const weights = terms.map(term => {
+      const matches = documents.filter(document => document.some(matchesTerm(term))).length;
+      return matches > 0 ? Math.log((documents.length + 1) / matches) : 0;
+    });
+    const productIds = context.products
+      .map((product, index) => ({
+        id: product.id,
+        score: terms.reduce((total, term, termIndex) => documents[index].some(matchesTerm(term)) ? total + weights[termIndex] : total, 0),
+      }))
+      .filter(entry => entry.score > 0.5)
+      .sort((a, b) => b.score - a.score)
+      .map(entry => entry.id);
+    const { found, notFound } = phrases(context.lang);
+    return groundAnswer(context, productIds.length > 0
+      ? { text: found, productIds, handoff: 'quote' }
+      : { text: notFound, productIds: [], handoff: 'contact' });
+  },
+});
+
+// Answers with `fallback` when `primary` fails, e.g. offline or over its quota.
+export const withFallback = (primary: AssistantModel, fallback: AssistantModel): AssistantModel => ({
+  answer: (context, messages) => primary.answer(context, messages).catch(error => {
+    console.error('Assistant error:', error);
+    return fallback.answer(context, messages);
+  }),
+});
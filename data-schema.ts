@@ -0,0 +1,395 @@
+// The shape of data.json, with a runtime check so the app and scripts/check-data.ts
+// reject malformed content instead of rendering blanks.
+import { LOCALES, type Language } from './locales/registry.ts';
+
+// --- Data Types ---
+// English is required; other languages may be missing and fall back (see locales/registry.ts).
+export interface LocalizedString extends Partial<Record<Language, string>> {
+  en: string;
+}
+
+export interface Slide {
+  image: string;
+  title: LocalizedString;
+  subtitle: LocalizedString;
+  // Where the slide's button goes: a site path without the language ("/products/category/wheelchairs")
+  // or a full URL. Defaults to /products.
+  ctaLink?: string;
+  // Defaults to "Explore Our Products".
+  ctaText?: LocalizedString;
+}
+
+// A node in the product category tree. Products reference categories by id:
+// mainCategory is a top-level category and subCategory, when set, one of its descendants.
+export interface Category {
+  id: string;
+  parent?: string;
+  name: LocalizedString;
+  // Shown on the category's landing page, /products/category/<id>.
+  intro?: LocalizedString;
+  heroImage?: string;
+  // Product ids to feature on the landing page; defaults to the category's isFeatured products.
+  featuredProducts?: string[];
+  // Emoji shown before the name in category menus.
+  icon?: string;
+  // Position among siblings, ascending.
+  order: number;
+}
+
+// Stock status shown on product cards; lowStock and backorder still accept orders.
+export const AVAILABILITY = ['inStock', 'lowStock', 'outOfStock', 'backorder'] as const;
+export type Availability = typeof AVAILABILITY[number];
+
+// One value of a ProductOption. Fields set here replace the product's own while
+// the value is selected; specs are merged key by key.
+export interface ProductOptionValue {
+  id: string;
+  label: LocalizedString;
+  // Replaces the product's gallery; the first image becomes the main one.
+  images?: string[];
+  model?: string;
+  specs?: ProductSpecs;
+  price?: number;
+  availability?: Availability;
+}
+
+// A choice customers make on the product page, such as seat width or colour.
+// The first value is the default; the page URL keeps the selection as ?<option id>=<value id>.
+export interface ProductOption {
+  id: string;
+  label: LocalizedString;
+  values: ProductOptionValue[];
+}
+
+export interface Product {
+  id: string;
+  name: LocalizedString;
+  image: string;
+  otherImages?: string[];
+  // An MP4 shown after the images in the product gallery.
+  video?: string;
+  // Frames of a 360° view, in turning order; shown as one gallery item.
+  spinImages?: string[];
+  manufacturer: LocalizedString;
+  category: LocalizedString;
+  mainCategory?: string;
+  subCategory?: string;
+  isFeatured?: boolean;
+  shortDescription: LocalizedString;
+  countryOfOrigin: LocalizedString;
+  features: LocalizedString[];
+  model?: string;
+  specs?: ProductSpecs;
+  // In SAR, excluding VAT; the site adds VAT when it shows prices.
+  price?: number;
+  // Show "price on request" instead of a price, e.g. for made-to-measure chairs.
+  priceOnRequest?: boolean;
+  availability?: Availability;
+  // Typical working days to deliver when the product is not in stock.
+  leadTimeDays?: number;
+  warrantyMonths?: number;
+  options?: ProductOption[];
+}
+
+// Values are stored in the units declared by the matching SpecDefinition.
+export interface ProductSpecs {
+  seatWidth?: number[];
+  weightCapacity?: number;
+  frameWeight?: number;
+  frameMaterial?: string;
+  foldable?: boolean;
+}
+
+export type SpecKey = keyof ProductSpecs;
+
+export interface SpecDefinition {
+  key: SpecKey;
+  type: 'number' | 'enum' | 'boolean';
+  label: LocalizedString;
+  unit?: LocalizedString;
+  options?: { value: string; label: LocalizedString }[];
+}
+
+export interface Service {
+  id: string;
+  title: LocalizedString;
+  description: LocalizedString;
+  image: string;
+}
+
+// Opening hours for one day of the week; day 0 is Sunday. Times are "HH:MM", 24-hour.
+export interface BusinessHours {
+  day: number;
+  open: string;
+  close: string;
+}
+
+// When maintenance can be booked on the Services page.
+export interface BookingSettings {
+  hours: BusinessHours[];
+  // Length of each time slot customers choose from.
+  slotMinutes: number;
+  // The first bookable day is this many days from today (1 = tomorrow); bookings run horizonDays from there.
+  leadDays: number;
+  horizonDays: number;
+  // Public holidays and other closures, as YYYY-MM-DD.
+  closedDates?: string[];
+}
+
+// How customers reach us. Numbers are in international format ("+966505203532").
+export interface ContactSettings {
+  phone: string;
+  whatsapp: string;
+  email: string;
+  // Pre-filled WhatsApp messages. {url} is the page the customer is on; the product
+  // message also has {name} and {model}. Lines whose placeholders are all empty are left out.
+  messages: {
+    general: LocalizedString;
+    product: LocalizedString;
+  };
+}
+
+export interface FAQ {
+  question: LocalizedString;
+  answer: LocalizedString;
+}
+
+export interface Partner {
+  name: string;
+  logo: string;
+}
+
+export interface AppData {
+  slides: Slide[];
+  categories: Category[];
+  products: Product[];
+  specDefinitions: SpecDefinition[];
+  services: Service[];
+  booking: BookingSettings;
+  contact: ContactSettings;
+  faq: FAQ[];
+  partners: Partner[];
+}
+
+// --- Schema ---
+// Each schema appends "path: problem" messages to `issues` instead of stopping at
+// the first problem, so one run reports everything wrong with the file.
+interface Schema<T> {
+  check: (value: unknown, path: string, issues: string[]) => void;
+  // Never set; ties the schema to the type it validates so shapes below must match the interfaces.
+  readonly type?: T;
+}
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const primitive = <T>(type: 'string' | 'number' | 'boolean'): Schema<T> => ({
+  check: (value, path, issues) => {
+    if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+      issues.push(`${path}: expected a ${type}, got ${describe(value)}`);
+    }
+  },
+});
+
+const string = primitive<string>('string');
+const number = primitive<number>('number');
+const boolean = primitive<boolean>('boolean');
+
+const oneOf = <T extends string>(values: readonly T[]): Schema<T> => ({
+  check: (value, path, issues) => {
+    if (!values.includes(value as T)) {
+      issues.push(`${path}: expected one of ${values.map(v => `"${v}"`).join(', ')}, got ${JSON.stringify(value)}`);
+    }
+  },
+});
+
+const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  check: (value, path, issues) => {
+    if (value !== undefined) {
+      schema.check(value, path, issues);
+    }
+  },
+});
+
+const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  check: (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path}: expected an array, got ${describe(value)}`);
+      return;
+    }
+    value.forEach((entry, index) => item.check(entry, `${path}[${index}]`, issues));
+  },
+});
+
+// Unknown fields are reported too, since they are usually misspelt known ones.
+const object = <T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> => ({
+  check: (value, path, issues) => {
+    if (!isRecord(value)) {
+      issues.push(`${path}: expected an object, got ${describe(value)}`);
+      return;
+    }
+    for (const [key, schema] of Object.entries(shape) as [string, Schema<unknown>][]) {
+      schema.check(value[key], `${path}.${key}`, issues);
+    }
+    for (const key of Object.keys(value)) {
+      if (!(key in shape)) {
+        issues.push(`${path}.${key}: unexpected field`);
+      }
+    }
+  },
+});
+
+const localized: Schema<LocalizedString> = {
+  check: (value, path, issues) => {
+    if (!isRecord(value)) {
+      issues.push(`${path}: expected a translated text object, got ${describe(value)}`);
+      return;
+    }
+    string.check(value.en, `${path}.en`, issues);
+    for (const [lang, text] of Object.entries(value)) {
+      if (!(lang in LOCALES)) {
+        issues.push(`${path}.${lang}: unknown language`);
+      } else if (lang !== 'en') {
+        string.check(text, `${path}.${lang}`, issues);
+      }
+    }
+  },
+};
+
+const productSpecsSchema = object<ProductSpecs>({
+  seatWidth: optional(array(number)),
+  weightCapacity: optional(number),
+  frameWeight: optional(number),
+  frameMaterial: optional(string),
+  foldable: optional(boolean),
+});
+
+export const SPEC_KEYS: SpecKey[] = ['seatWidth', 'weightCapacity', 'frameWeight', 'frameMaterial', 'foldable'];
+
+// Number specs that hold one value per size offered rather than a single value.
+export const LIST_SPEC_KEYS: SpecKey[] = ['seatWidth'];
+
+const appDataSchema = object<AppData>({
+  slides: array(object<Slide>({
+    image: string,
+    title: localized,
+    subtitle: localized,
+    ctaLink: optional(string),
+    ctaText: optional(localized),
+  })),
+  categories: array(object<Category>({
+    id: string,
+    parent: optional(string),
+    name: localized,
+    intro: optional(localized),
+    heroImage: optional(string),
+    featuredProducts: optional(array(string)),
+    icon: optional(string),
+    order: number,
+  })),
+  products: array(object<Product>({
+    id: string,
+    name: localized,
+    image: string,
+    otherImages: optional(array(string)),
+    video: optional(string),
+    spinImages: optional(array(string)),
+    manufacturer: localized,
+    category: localized,
+    mainCategory: optional(string),
+    subCategory: optional(string),
+    isFeatured: optional(boolean),
+    shortDescription: localized,
+    countryOfOrigin: localized,
+    features: array(localized),
+    model: optional(string),
+    specs: optional(productSpecsSchema),
+    price: optional(number),
+    priceOnRequest: optional(boolean),
+    availability: optional(oneOf(AVAILABILITY)),
+    leadTimeDays: optional(number),
+    warrantyMonths: optional(number),
+    options: optional(array(object<ProductOption>({
+      id: string,
+      label: localized,
+      values: array(object<ProductOptionValue>({
+        id: string,
+        label: localized,
+        images: optional(array(string)),
+        model: optional(string),
+        specs: optional(productSpecsSchema),
+        price: optional(number),
+        availability: optional(oneOf(AVAILABILITY)),
+      })),
+    }))),
+  })),
+  specDefinitions: array(object<SpecDefinition>({
+    key: oneOf(SPEC_KEYS),
+    type: oneOf(['number', 'enum', 'boolean'] as const),
+    label: localized,
+    unit: optional(localized),
+    options: optional(array(object<{ value: string; label: LocalizedString }>({
+      value: string,
+      label: localized,
+    }))),
+  })),
+  services: array(object<Service>({
+    id: string,
+    title: localized,
+    description: localized,
+    image: string,
+  })),
+  booking: object<BookingSettings>({
+    hours: array(object<BusinessHours>({
+      day: number,
+      open: string,
+      close: string,
+    })),
+    slotMinutes: number,
+    leadDays: number,
+    horizonDays: number,
+    closedDates: optional(array(string)),
+  }),
+  contact: object<ContactSettings>({
+    phone: string,
+    whatsapp: string,
+    email: string,
+    messages: object<ContactSettings['messages']>({
+      general: localized,
+      product: localized,
+    }),
+  }),
+  faq: array(object<FAQ>({
+    question: localized,
+    answer: localized,
+  })),
+  partners: array(object<Partner>({
+    name: string,
+    logo: string,
+  })),
+});
+
+export class DataValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`data.json does not match the expected shape:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'DataValidationError';
+  }
+}
+
+// Returns every structural problem in `value`; an empty list means it is valid AppData.
+export const validateAppData = (value: unknown): string[] => {
+  const issues: string[] = [];
+  appDataSchema.check(value, 'data', issues);
+  return issues;
+};
+
+export const parseAppData = (value: unknown): AppData => {
+  const issues = validateAppData(value);
+  if (issues.length > 0) {
+    throw new DataValidationError(issues);
+  }
+  return value as AppData;
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import { StaticRouter } from 'react-router-dom/server';
+import { App, AppData, HeadTagsContext, serializeHeadTags } from './index.tsx';
+
+export { getRoutePaths, absoluteUrl, UNLISTED_PATHS, SUPPORTED_LANGUAGES, DEFAULT_LANGUAGE } from './index.tsx';
+
+// Returns the page markup plus the <head> tags its PageMeta asked for.
+export const render = (url: string, data: AppData) => {
+  const headTags = { tags: [] };
+  const html = renderToString(
+    <React.StrictMode>
+      <HeadTagsContext.Provider value={headTags}>
+        <StaticRouter location={url}>
+          <App initialData={data} />
+        </StaticRouter>
+      </HeadTagsContext.Provider>
+    </React.StrictMode>
+  );
+  return { html, head: serializeHeadTags(headTags.tags) };
+};
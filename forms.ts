@@ -0,0 +1,161 @@
+// Where the contact, quote and booking forms are sent. The site picks one
+// FormAdapter at build time (see formAdapter in index.tsx); scripts/form-server.ts
+// implements the webhook contract locally for development.
+import { isRecord } from './data-schema.ts';
+
+export interface FormAttachment {
+  name: string;
+  type: string;
+  // A data: URL, so queued submissions survive in localStorage.
+  data: string;
+}
+
+// Plain JSON values plus an optional `attachments` list.
+export type FormPayload = Record<string, unknown> & { attachments?: FormAttachment[] };
+
+export interface SubmitResult {
+  ok: boolean;
+  // Saved in the outbox to send once the device is back online.
+  queued?: boolean;
+  // Offline, and the outbox had no room for the submission (localStorage is full).
+  outboxFull?: boolean;
+  errorMessage?: string;
+  // Messages from the backend keyed by payload field.
+  fieldErrors?: Record<string, string>;
+  // The backend is overloaded or down (429 or 5xx); the same payload may succeed later.
+  retryable?: boolean;
+}
+
+export interface FormAdapter {
+  // Resolves with the backend's verdict; rejects with a TypeError when the request never arrives.
+  submit(payload: FormPayload): Promise<SubmitResult>;
+}
+
+// Honeypot field, named as Formspree expects so it also drops these submissions itself.
+export const HONEYPOT_FIELD = '_gotcha';
+// Milliseconds between the form appearing and being sent; people take longer than bots.
+export const ELAPSED_FIELD = '_elapsedMs';
+export const MIN_FILL_TIME_MS = 3000;
+
+// The honeypot was filled in: a bot. These are reported as sent and dropped.
+export const isSpamSubmission = (payload: FormPayload) => Boolean(payload[HONEYPOT_FIELD]);
+
+// Sent faster than a person could type it, so autofilled, pre-filled or a bot.
+// These are still sent; the backend flags them for a closer look.
+export const isHurriedSubmission = (payload: FormPayload) => !(Number(payload[ELAPSED_FIELD]) >= MIN_FILL_TIME_MS);
+
+export const MAX_ATTACHMENTS = 3;
+// Per file. Attachments are kept as data URLs in the outbox, which shares the ~5 MB localStorage quota.
+export const MAX_ATTACHMENT_MB = 1;
+export const ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'];
+
+// Customers type Arabic-Indic digits as often as Latin ones.
+export const toLatinDigits = (value: string) =>
+  value.replace(/[٠-٩]/g, digit => String(digit.charCodeAt(0) - 0x0660)).replace(/[۰-۹]/g, digit => String(digit.charCodeAt(0) - 0x06f0));
+
+// A Saudi mobile number as +9665XXXXXXXX, from "05X XXX XXXX", "+966 5X…", "00966 5X…"
+// or "5X…"; null for anything else.
+export const normalizeSaudiMobile = (phone: string) => {
+  const match = /^(?:\+966|00966|966|0)?(5\d{8})$/.exec(toLatinDigits(phone).replace(/[\s()-]/g, ''));
+  return match ? `+966${match[1]}` : null;
+};
+
+export const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/.test(email.trim());
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+export const SUBMIT_ATTEMPTS = 3;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Tries again, waiting 1 s then 2 s, when the request does not arrive or the
+// backend is temporarily unavailable. Other rejections, such as a 422, are returned
+// at once; network failures still throw after the last attempt.
+export const submitWithRetries = async (adapter: FormAdapter, payload: FormPayload, wait = sleep): Promise<SubmitResult> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await adapter.submit(payload);
+      if (result.ok || !result.retryable || attempt === SUBMIT_ATTEMPTS) {
+        return result;
+      }
+    } catch (error) {
+      if (!(error instanceof TypeError) || attempt === SUBMIT_ATTEMPTS) {
+        throw error;
+      }
+    }
+    await wait(1000 * 2 ** (attempt - 1));
+  }
+};
+
+const readJson = (response: Response): Promise<unknown> => response.json().catch(() => ({}));
+
+const text = (value: unknown) => typeof value === 'string' ? value : undefined;
+
+// Formspree accepts JSON, except that files need a multipart body.
+const toFormData = ({ attachments = [], ...fields }: FormPayload) => {
+  const body = new FormData();
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined && value !== null) {
+      body.append(key, typeof value === 'string' ? value : JSON.stringify(value));
+    }
+  }
+  for (const attachment of attachments) {
+    const [header, base64] = attachment.data.split(',');
+    const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+    body.append('attachment', new Blob([bytes], { type: header.slice(5).split(';')[0] }), attachment.name);
+  }
+  return body;
+};
+
+// Formspree (https://formspree.io) by form id. Rejections look like
+// { errors: [{ field?, code, message }] }.
+export const createFormspreeAdapter = (formId: string): FormAdapter => ({
+  submit: async payload => {
+    const hasFiles = Boolean(payload.attachments?.length);
+    const response = await fetch(`https://formspree.io/f/${formId}`, {
+      method: 'POST',
+      headers: hasFiles ? { Accept: 'application/json' } : { Accept: 'application/json', 'Content-Type': 'application/json' },
+      body: hasFiles ? toFormData(payload) : JSON.stringify(payload),
+    });
+    if (response.ok) {
+      return { ok: true };
+    }
+    const body = await readJson(response);
+    const errors = (isRecord(body) && Array.isArray(body.errors) ? body.errors : [])
+      .filter(isRecord)
+      .map(error => ({ field: text(error.field), message: text(error.message) ?? '' }));
+    const fieldErrors = Object.fromEntries(errors.filter(error => error.field).map(error => [error.field, error.message]));
+    const general = errors.filter(error => !error.field).map(error => error.message).join(', ');
+    return {
+      ok: false,
+      errorMessage: general || undefined,
+      fieldErrors: Object.keys(fieldErrors).length > 0 ? fieldErrors : undefined,
+      retryable: isRetryableStatus(response.status),
+    };
+  },
+});
+
+// Any endpoint that takes the payload as JSON and answers 2xx, or 4xx with
+// { message?, errors?: { [field]: message } }.
+export const createWebhookAdapter = (url: string): FormAdapter => ({
+  submit: async payload => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    if (response.ok) {
+      return { ok: true };
+    }
+    const body = await readJson(response);
+    const errors = isRecord(body) && isRecord(body.errors)
+      ? Object.fromEntries(Object.entries(body.errors).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+      : {};
+    return {
+      ok: false,
+      errorMessage: isRecord(body) ? text(body.message) : undefined,
+      fieldErrors: Object.keys(errors).length > 0 ? errors : undefined,
+      retryable: isRetryableStatus(response.status),
+    };
+  },
+});
@@ -0,0 +1,39 @@
+// Images the site uses outside data.json, and the format of the manifest that
+// `npm run images` (scripts/build-images.ts) writes and ResponsiveImage reads.
+import type { AppData } from './data-schema.ts';
+
+export const SITE_IMAGES = {
+  logo: 'https://i.imgur.com/sUARy23.png',
+  about: 'https://i.imgur.com/xApFqZi.jpeg',
+} as const;
+
+// Widths generated for each image; images narrower than the largest also get their own width.
+export const IMAGE_WIDTHS = [320, 640, 960, 1280, 1920];
+
+export interface ImageManifestEntry {
+  // Size of the original, for width/height attributes.
+  width: number;
+  height: number;
+  // Generated widths; each exists as `${path}-${width}.avif` and `.webp`.
+  widths: number[];
+  path: string;
+  // A tiny blurred WebP as a data: URL, shown until the image loads.
+  placeholder: string;
+}
+
+// Keyed by the image URL as written in data.json or SITE_IMAGES.
+export type ImageManifest = Record<string, ImageManifestEntry>;
+
+export const collectImageUrls = (data: AppData): string[] => [...new Set([
+  ...Object.values(SITE_IMAGES),
+  ...data.slides.map(slide => slide.image),
+  ...data.categories.flatMap(category => category.heroImage ? [category.heroImage] : []),
+  ...data.products.flatMap(product => [
+    product.image,
+    ...(product.otherImages || []),
+    ...(product.spinImages || []),
+    ...(product.options || []).flatMap(option => option.values.flatMap(value => value.images || [])),
+  ]),
+  ...data.services.map(service => service.image),
+  ...data.partners.map(partner => partner.logo),
+])];
@@ -1,61 +1,94 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+/// <reference types="vite/client" />
+import React, { useState, useEffect, useRef, useCallback, useMemo, useContext, Suspense, lazy } from 'react';
 import ReactDOM from 'react-dom/client';
-import { HashRouter, Routes, Route, Link, NavLink, useParams, useSearchParams, useLocation, useNavigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Link, NavLink, Navigate, useParams, useSearchParams, useLocation, useNavigate } from 'react-router-dom';
+import type { TranslationKey } from './locales/keys.ts';
+import { LOCALES, type Language, type LocaleDefinition } from './locales/registry.ts';
+import { createTranslate, interpolate, localize, type Translate } from './locales/translate.ts';
+import {
+  parseAppData,
+  type AppData, type Availability, type Category, type FAQ, type LocalizedString, type Product, type ProductSpecs, type Service, type Slide, type SpecDefinition, type BookingSettings, type ContactSettings, type SpecKey,
+} from './data-schema.ts';
+import { AVAILABILITY_LABELS, VAT_RATE, formatAmount, formatSpecValue, getDisplayPrice, getSpecNumbers } from './product-format.ts';
+import { SITE_IMAGES, type ImageManifest, type ImageManifestEntry } from './images.ts';
+import {
+  createFormspreeAdapter, createWebhookAdapter, isSpamSubmission, isValidEmail, normalizeSaudiMobile, submitWithRetries, ATTACHMENT_TYPES, ELAPSED_FIELD, HONEYPOT_FIELD, MAX_ATTACHMENT_MB, MAX_ATTACHMENTS,
+  type FormAdapter, type FormAttachment, type FormPayload, type SubmitResult,
+} from './forms.ts';
+import { createHttpTicketSource, normalizePhone, TICKET_STATUSES, type RepairTicket, type TicketSource, type TicketStatus } from './tickets.ts';
+import {
+  buildAssistantContext, citedProducts, createHttpAssistantModel, createStubAssistantModel, withFallback, MAX_MESSAGE_LENGTH,
+  type AssistantAnswer, type AssistantMessage, type AssistantModel,
+} from './assistant.ts';
 
-// --- Data Types ---
-interface LocalizedString {
-  en: string;
-  ar: string;
-}
+export type { AppData, Language };
+
+export const SUPPORTED_LANGUAGES = Object.keys(LOCALES) as Language[];
+export const DEFAULT_LANGUAGE: Language = SUPPORTED_LANGUAGES[0];
 
-interface Slide {
-  image: string;
-  title: LocalizedString;
-  subtitle: LocalizedString;
+export const SITE_URL = 'https://woe.sa';
+
+interface PageMetadata {
+  title: string;
+  description: string;
+  // Unprefixed path used for the canonical URL and hreflang alternates; defaults to the current page.
+  path?: string;
+  image?: string;
+  type?: 'website' | 'product';
+  jsonLd?: Record<string, unknown>[];
+  noIndex?: boolean;
 }
 
-interface Product {
-  id: string;
-  name: LocalizedString;
-  image: string;
-  otherImages?: string[];
-  manufacturer: LocalizedString;
-  category: LocalizedString;
-  mainCategory?: string;
-  subCategory?: string;
-  isFeatured?: boolean;
-  shortDescription: LocalizedString;
-  countryOfOrigin: LocalizedString;
-  features: LocalizedString[];
-  model?: string;
+interface HeadTag {
+  tag: 'title' | 'meta' | 'link' | 'script';
+  attributes: Record<string, string>;
+  content?: string;
 }
 
-interface Service {
-  id: string;
-  title: LocalizedString;
-  description: LocalizedString;
-  image: string;
+interface CompareSelection {
+  ids: string[];
+  toggle: (id: string) => void;
+  clear: () => void;
 }
 
-interface FAQ {
-  question: LocalizedString;
-  answer: LocalizedString;
+const MAX_COMPARE_ITEMS = 3;
+
+interface CategoryTree {
+  roots: Category[];
+  get: (id: string) => Category | undefined;
+  children: (id: string) => Category[];
+  // The category and its ancestors, root first.
+  path: (id: string) => Category[];
+  // Every category in display order (depth-first), with its nesting depth.
+  flatten: () => { category: Category; depth: number }[];
+  // Whether the product sits in the category or any of its descendants.
+  contains: (categoryId: string, product: Product) => boolean;
 }
 
-interface Partner {
-    name: string;
-    logo: string;
+interface SearchIndex {
+  // Maps the id of every product matching all query terms to its relevance score.
+  search: (query: string) => Map<string, number>;
 }
 
-interface AppData {
-  slides: Slide[];
-  products: Product[];
-  services: Service[];
-  faq: FAQ[];
-  partners: Partner[];
+// The chosen value id of each of a product's options, keyed by option id.
+type OptionSelection = Record<string, string>;
+
+interface QuoteItem {
+  productId: string;
+  quantity: number;
+  note: string;
+  options?: OptionSelection;
 }
 
-type Language = 'en' | 'ar';
+// Lines are identified by quoteItemKey, so each configuration of a product is its own line.
+interface QuoteBasket {
+  items: QuoteItem[];
+  // Adds a line, or sets the quantity and note of the line with the same configuration.
+  add: (productId: string, quantity: number, note: string, options?: OptionSelection) => void;
+  update: (key: string, changes: Partial<Pick<QuoteItem, 'quantity' | 'note'>>) => void;
+  remove: (key: string) => void;
+  clear: () => void;
+}
 
 // --- Custom Hooks ---
 const useDebounce = (value: string, delay: number) => {
@@ -74,16 +107,760 @@ const useDebounce = (value: string, delay: number) => {
     return debouncedValue;
 };
 
+// Starts from initialValue and reads storage after mount, so the first render
+// matches the pre-rendered markup. Stored values that fail isValid, such as ones
+// saved by an older version of the site or edited by hand, are ignored.
+const useLocalStorageState = <T,>(key: string, initialValue: T, isValid: (value: unknown) => value is T) => {
+    const [value, setValue] = useState<T>(initialValue);
+    const [isLoaded, setIsLoaded] = useState(false);
+
+    useEffect(() => {
+        try {
+            const stored = window.localStorage.getItem(key);
+            const parsed: unknown = stored ? JSON.parse(stored) : undefined;
+            if (isValid(parsed)) {
+                setValue(parsed);
+            } else if (stored) {
+                console.error(`Ignoring invalid ${key}:`, stored);
+            }
+        } catch (error) {
+            console.error(`Could not read ${key}:`, error);
+        }
+        setIsLoaded(true);
+    }, [key]);
+
+    useEffect(() => {
+        if (!isLoaded) return;
+        try {
+            window.localStorage.setItem(key, JSON.stringify(value));
+        } catch (error) {
+            console.error(`Could not persist ${key}:`, error);
+        }
+    }, [key, value, isLoaded]);
+
+    return [value, setValue] as const;
+};
+
+// --- Form Submission ---
+// Forms go to Formspree unless VITE_FORM_WEBHOOK names another endpoint, such as
+// /api/forms for the local `npm run forms` server (see forms.ts for the contract).
+const formAdapter: FormAdapter = import.meta.env.VITE_FORM_WEBHOOK
+    ? createWebhookAdapter(import.meta.env.VITE_FORM_WEBHOOK)
+    : createFormspreeAdapter(import.meta.env.VITE_FORMSPREE_ID || 'xeqyqdrj');
+
+// Submissions made offline wait here until flushOutbox sends them.
+const OUTBOX_KEY = 'woe-outbox';
+
+const readOutbox = (): FormPayload[] => {
+    try {
+        const stored: unknown = JSON.parse(window.localStorage.getItem(OUTBOX_KEY) || '[]');
+        return Array.isArray(stored) ? stored.filter(payload => typeof payload === 'object' && payload !== null) : [];
+    } catch (error) {
+        console.error(`Could not read ${OUTBOX_KEY}:`, error);
+        return [];
+    }
+};
+
+// False when the payloads do not fit in storage, which large attachments can cause.
+const writeOutbox = (payloads: FormPayload[]) => {
+    try {
+        window.localStorage.setItem(OUTBOX_KEY, JSON.stringify(payloads));
+        return true;
+    } catch (error) {
+        console.error(`Could not persist ${OUTBOX_KEY}:`, error);
+        return false;
+    }
+};
+
+// Queues the payload instead of failing when the device is offline or the request
+// never reaches the server (fetch rejects with a TypeError only then).
+const submitForm = async (payload: FormPayload): Promise<SubmitResult> => {
+    const queue = () => writeOutbox([...readOutbox(), payload]) ? { ok: true, queued: true } : { ok: false, outboxFull: true };
+    if (!navigator.onLine) {
+        return queue();
+    }
+    try {
+        return await submitWithRetries(formAdapter, payload);
+    } catch (error) {
+        if (error instanceof TypeError) {
+            return queue();
+        }
+        throw error;
+    }
+};
+
+// Sends queued submissions oldest first and resolves with how many went out. Stops
+// at the first network failure or while the backend is unavailable; payloads the
+// backend rejects are dropped, since sending them again would fail the same way.
+let isFlushingOutbox = false;
+const flushOutbox = async () => {
+    if (isFlushingOutbox) {
+        return 0;
+    }
+    isFlushingOutbox = true;
+    let sent = 0;
+    try {
+        for (let payload = readOutbox()[0]; payload; payload = readOutbox()[0]) {
+            const result = await formAdapter.submit(payload);
+            if (result.retryable) {
+                break;
+            }
+            if (result.ok) {
+                sent++;
+            } else {
+                console.error("Queued form submission was rejected:", result.errorMessage);
+            }
+            writeOutbox(readOutbox().slice(1));
+        }
+    } catch (error) {
+        console.error("Could not send queued form submissions:", error);
+    } finally {
+        isFlushingOutbox = false;
+    }
+    return sent;
+};
+
+// Every form has a honeypot field that people never see and notes how long it was
+// open. Submissions that fill the honeypot are reported as sent without being
+// sent, so bots get nothing to adapt to. Quick ones are sent with the time for the
+// backend to judge, since autofilled and pre-filled forms are quick too.
+const useSpamCheck = () => {
+    const openedAt = useRef(Date.now());
+    const [honeypot, setHoneypot] = useState('');
+    const elapsed = () => Date.now() - openedAt.current;
+    // Pre-rendered forms only start counting once they are interactive.
+    useEffect(() => {
+        openedAt.current = Date.now();
+    }, []);
+    return {
+        honeypot,
+        setHoneypot,
+        isSpam: () => isSpamSubmission({ [HONEYPOT_FIELD]: honeypot }),
+        fields: () => ({ [HONEYPOT_FIELD]: honeypot, [ELAPSED_FIELD]: elapsed() }),
+    };
+};
+
+type SpamCheck = ReturnType<typeof useSpamCheck>;
+
+const HoneypotField: React.FC<{ id: string; spam: SpamCheck }> = ({ id, spam }) => {
+    const { t } = useT();
+    return (
+        <div className="form-honeypot" aria-hidden="true">
+            <label htmlFor={id}>{t('formHoneypot')}</label>
+            <input type="text" id={id} name={HONEYPOT_FIELD} tabIndex={-1} autoComplete="off" value={spam.honeypot} onChange={(e) => spam.setHoneypot(e.target.value)} />
+        </div>
+    );
+};
+
+// Splits the backend's field errors into those for fields the form shows, keyed by
+// the form's own field names, and one message for the rest.
+const mapFieldErrors = <F extends string>(result: SubmitResult, fields: Record<string, F>) => {
+    const fieldErrors: Partial<Record<F, string>> = {};
+    const other: string[] = [];
+    for (const [field, message] of Object.entries(result.fieldErrors || {})) {
+        if (Object.prototype.hasOwnProperty.call(fields, field)) {
+            fieldErrors[fields[field]] = message;
+        } else {
+            other.push(`${field}: ${message}`);
+        }
+    }
+    return { fieldErrors, errorMessage: [result.errorMessage, ...other].filter(Boolean).join(' ') || undefined };
+};
+
+const readAttachment = (file: File) => new Promise<FormAttachment>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({ name: file.name, type: file.type, data: reader.result as string });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+const AttachmentsField: React.FC<{
+    id: string;
+    attachments: FormAttachment[];
+    onChange: (attachments: FormAttachment[]) => void;
+    error?: string;
+    onError: (error: string) => void;
+}> = ({ id, attachments, onChange, error, onError }) => {
+    const { t } = useT();
+    const max = MAX_ATTACHMENTS;
+    const size = MAX_ATTACHMENT_MB;
+
+    const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = Array.from(e.target.files || []);
+        e.target.value = '';
+        const added: FormAttachment[] = [];
+        let problem = files.length > max - attachments.length ? t('formErrorAttachmentLimit', { max }) : '';
+        for (const file of files.slice(0, Math.max(0, max - attachments.length))) {
+            const name = file.name;
+            if (!ATTACHMENT_TYPES.includes(file.type)) {
+                problem = t('formErrorAttachmentType', { name });
+            } else if (file.size > size * 1024 * 1024) {
+                problem = t('formErrorAttachmentSize', { name, size });
+            } else {
+                try {
+                    added.push(await readAttachment(file));
+                } catch (readError) {
+                    console.error(`Could not read ${name}:`, readError);
+                    problem = t('bookingErrorPhoto', { name });
+                }
+            }
+        }
+        onChange([...attachments, ...added]);
+        onError(problem);
+    };
+
+    return (
+        <div className="form-group">
+            <label htmlFor={id}>{t('formAttachments', { max, size })}</label>
+            <input
+                type="file"
+                id={id}
+                accept={ATTACHMENT_TYPES.join(',')}
+                multiple
+                disabled={attachments.length >= max}
+                onChange={handleFiles}
+                className={error ? 'error' : ''}
+                aria-describedby={error ? `${id}-error` : undefined}
+            />
+            {error && <p className="error-message" id={`${id}-error`}>{error}</p>}
+            {attachments.length > 0 && (
+                <ul className="form-attachments">
+                    {attachments.map((attachment, index) => {
+                        const name = attachment.name;
+                        return (
+                            <li key={`${name}-${index}`}>
+                                <span dir="auto">{name}</span>
+                                <button
+                                    type="button"
+                                    onClick={() => onChange(attachments.filter((_, i) => i !== index))}
+                                    aria-label={t('formRemoveAttachment', { name })}
+                                >
+                                    &times;
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+// --- Translations ---
+const isRtl = (lang: Language) => LOCALES[lang].dir === 'rtl';
+
+const I18nContext = React.createContext<{ lang: Language; t: Translate }>({
+  lang: DEFAULT_LANGUAGE,
+  t: createTranslate(DEFAULT_LANGUAGE),
+});
+
+export const useT = () => useContext(I18nContext);
+
 // --- Helper Components ---
 const T: React.FC<{ content: LocalizedString; lang: Language; args?: Record<string, string | number> }> = ({ content, lang, args }) => {
-  let text = content[lang] || '';
-  if (args) {
-    Object.keys(args).forEach(key => {
-      const regex = new RegExp(`{${key}}`, 'g');
-      text = text.replace(regex, String(args[key]));
-    });
+  return <>{interpolate(localize(content, lang), args)}</>;
+};
+
+// --- Routing Helpers ---
+const isLanguage = (value: string | null | undefined): value is Language =>
+  SUPPORTED_LANGUAGES.includes(value as Language);
+
+// Every page lives under a language segment, e.g. /en/products/eos.
+const localizePath = (lang: Language, path: string) => `/${lang}${path === '/' ? '' : path}`;
+
+const getPathLanguage = (pathname: string) => {
+  const segment = pathname.split('/')[1];
+  return isLanguage(segment) ? segment : null;
+};
+
+const stripPathLanguage = (pathname: string) => {
+  const lang = getPathLanguage(pathname);
+  return lang ? pathname.slice(lang.length + 1) || '/' : pathname;
+};
+
+const LANGUAGE_STORAGE_KEY = 'woe-language';
+
+// Maps a BCP 47 tag such as "en-GB" or "tl-PH" to a supported language.
+const matchLanguageTag = (tag: string): Language | null => {
+  const base = tag.toLowerCase().split('-')[0];
+  if (isLanguage(base)) {
+    return base;
+  }
+  return SUPPORTED_LANGUAGES.find(lang => (LOCALES[lang] as LocaleDefinition).aliases?.includes(base)) ?? null;
+};
+
+// Used when the URL names no language: the visitor's last choice, then their browser's languages.
+const getPreferredLanguage = (): Language => {
+  try {
+    const saved = window.localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    if (isLanguage(saved)) {
+      return saved;
+    }
+  } catch (error) {
+    console.error(`Could not read ${LANGUAGE_STORAGE_KEY}:`, error);
+  }
+  const browserLanguages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const tag of browserLanguages) {
+    const match = tag && matchLanguageTag(tag);
+    if (match) {
+      return match;
+    }
+  }
+  return DEFAULT_LANGUAGE;
+};
+
+const savePreferredLanguage = (lang: Language) => {
+  try {
+    window.localStorage.setItem(LANGUAGE_STORAGE_KEY, lang);
+  } catch (error) {
+    console.error(`Could not persist ${LANGUAGE_STORAGE_KEY}:`, error);
+  }
+};
+
+// Paths (without the language segment) that the build pre-renders for every language.
+export const getRoutePaths = (data: AppData) => [
+  '/',
+  '/about',
+  '/products',
+  ...data.categories.map(category => `/products/category/${category.id}`),
+  ...data.products.map(product => `/products/${product.id}`),
+  '/compare',
+  '/quote',
+  '/services',
+  '/faq',
+  '/contact',
+  ...(ticketSource ? ['/track'] : []),
+  '/assistant',
+];
+
+// Client-only pages (comparisons, the quote basket) are pre-rendered but kept out of the sitemap.
+export const UNLISTED_PATHS = ['/compare', '/quote'];
+
+const loadAppData = async (): Promise<AppData> => {
+  const response = await fetch('/data.json');
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return parseAppData(await response.json());
+};
+
+// --- Images ---
+// image-manifest.json is written by `npm run images`. The glob finds nothing when
+// it has not been run, and every image is then shown from its original URL.
+const IMAGE_MANIFEST: ImageManifest = Object.values(
+  import.meta.glob<ImageManifest>('./image-manifest.json', { eager: true, import: 'default' })
+)[0] ?? {};
+
+// `sizes` for the layouts in index.css: full-width heroes, the two-column product
+// page, product card grids and small thumbnails.
+const IMAGE_SIZES = {
+  full: '100vw',
+  half: '(max-width: 62rem) 100vw, 50vw',
+  card: '(max-width: 48rem) 50vw, (max-width: 62rem) 33vw, 25vw',
+  thumbnail: '6rem',
+};
+
+const imageSrcSet = (entry: ImageManifestEntry, format: 'avif' | 'webp') =>
+  entry.widths.map(width => `${entry.path}-${width}.${format} ${width}w`).join(', ');
+
+// The largest local copy of an image, for places that take a single URL.
+const imageUrl = (src: string) => {
+  const entry = IMAGE_MANIFEST[src];
+  return entry ? `${entry.path}-${entry.widths[entry.widths.length - 1]}.webp` : src;
+};
+
+// Serves the AVIF and WebP copies from the manifest with the original's width and
+// height, so the layout doesn't shift while images load, over a blurred placeholder.
+const ResponsiveImage: React.FC<{
+  src: string;
+  alt: string;
+  sizes?: string;
+  className?: string;
+  loading?: 'lazy' | 'eager';
+  draggable?: boolean;
+  style?: React.CSSProperties;
+}> = ({ src, sizes = IMAGE_SIZES.full, style, ...props }) => {
+  const imgRef = useRef<HTMLImageElement>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const entry = IMAGE_MANIFEST[src];
+
+  useEffect(() => {
+    // Pre-rendered images can finish loading before hydration attaches onLoad.
+    if (imgRef.current?.complete) {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  if (!entry) {
+    return <img src={src} style={style} {...props} />;
+  }
+  return (
+    <picture>
+      <source type="image/avif" srcSet={imageSrcSet(entry, 'avif')} sizes={sizes} />
+      <source type="image/webp" srcSet={imageSrcSet(entry, 'webp')} sizes={sizes} />
+      <img
+        ref={imgRef}
+        src={imageUrl(src)}
+        width={entry.width}
+        height={entry.height}
+        onLoad={() => setIsLoaded(true)}
+        style={isLoaded ? style : { ...style, backgroundImage: `url("${entry.placeholder}")`, backgroundSize: 'cover' }}
+        {...props}
+      />
+    </picture>
+  );
+};
+
+// --- Page Metadata ---
+const SITE_NAME: LocalizedString = { en: 'Wheel of Excellence', ar: 'مؤسسة عجلة التميز التجارية' };
+const DEFAULT_OG_IMAGE = 'https://i.imgur.com/WgE6xfs.png';
+
+// Pre-rendered pages are served as directories, so absolute URLs always end in a slash.
+export const absoluteUrl = (lang: Language, path: string) => {
+  const [pathname, search] = path.split('?');
+  const localized = localizePath(lang, pathname);
+  return `${SITE_URL}${localized}${localized.endsWith('/') ? '' : '/'}${search ? `?${search}` : ''}`;
+};
+
+const buildHeadTags = (metadata: PageMetadata, lang: Language, path: string): HeadTag[] => {
+  const title = `${metadata.title} | ${localize(SITE_NAME, lang)}`;
+  const url = absoluteUrl(lang, path);
+  const image = metadata.image || DEFAULT_OG_IMAGE;
+  return [
+    { tag: 'title', attributes: {}, content: title },
+    { tag: 'meta', attributes: { name: 'description', content: metadata.description } },
+    ...(metadata.noIndex ? [{ tag: 'meta' as const, attributes: { name: 'robots', content: 'noindex' } }] : []),
+    { tag: 'link', attributes: { rel: 'canonical', href: url } },
+    ...SUPPORTED_LANGUAGES.map(alternate => ({
+      tag: 'link' as const,
+      attributes: { rel: 'alternate', hreflang: alternate, href: absoluteUrl(alternate, path) },
+    })),
+    { tag: 'link', attributes: { rel: 'alternate', hreflang: 'x-default', href: absoluteUrl(DEFAULT_LANGUAGE, path) } },
+    { tag: 'meta', attributes: { property: 'og:type', content: metadata.type === 'product' ? 'product' : 'website' } },
+    { tag: 'meta', attributes: { property: 'og:url', content: url } },
+    { tag: 'meta', attributes: { property: 'og:title', content: title } },
+    { tag: 'meta', attributes: { property: 'og:description', content: metadata.description } },
+    { tag: 'meta', attributes: { property: 'og:image', content: image } },
+    { tag: 'meta', attributes: { property: 'og:locale', content: LOCALES[lang].ogLocale } },
+    { tag: 'meta', attributes: { name: 'twitter:card', content: 'summary_large_image' } },
+    { tag: 'meta', attributes: { name: 'twitter:title', content: title } },
+    { tag: 'meta', attributes: { name: 'twitter:description', content: metadata.description } },
+    { tag: 'meta', attributes: { name: 'twitter:image', content: image } },
+    ...(metadata.jsonLd || []).map(data => ({
+      tag: 'script' as const,
+      attributes: { type: 'application/ld+json' },
+      content: JSON.stringify(data),
+    })),
+  ];
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Every generated tag carries data-page-meta so the client can swap them on navigation.
+export const serializeHeadTags = (tags: HeadTag[]) =>
+  tags.map(({ tag, attributes, content }) => {
+    const attrs = Object.entries({ ...attributes, 'data-page-meta': '' })
+      .map(([name, value]) => value === '' ? ` ${name}` : ` ${name}="${escapeHtml(value)}"`)
+      .join('');
+    if (tag === 'meta' || tag === 'link') return `<${tag}${attrs}>`;
+    const body = tag === 'script' ? (content || '').replace(/</g, '\\u003c') : escapeHtml(content || '');
+    return `<${tag}${attrs}>${body}</${tag}>`;
+  }).join('\n    ');
+
+const applyHeadTags = (tags: HeadTag[]) => {
+  document.head.querySelectorAll('[data-page-meta], title').forEach(element => element.remove());
+  tags.forEach(({ tag, attributes, content }) => {
+    const element = document.createElement(tag);
+    Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, value));
+    element.setAttribute('data-page-meta', '');
+    if (content) element.textContent = content;
+    document.head.appendChild(element);
+  });
+};
+
+// Set by entry-server.tsx so pre-rendering can collect the tags of the page it renders.
+export const HeadTagsContext = React.createContext<{ tags: HeadTag[] } | null>(null);
+
+export const PageMeta: React.FC<PageMetadata & { lang: Language }> = ({ lang, ...metadata }: PageMetadata & { lang: Language }) => {
+  const location = useLocation();
+  const collector = useContext(HeadTagsContext);
+  const tags = buildHeadTags(metadata, lang, metadata.path ?? stripPathLanguage(location.pathname));
+  const signature = JSON.stringify(tags);
+
+  if (collector) {
+    collector.tags = tags;
+  }
+
+  useEffect(() => {
+    applyHeadTags(tags);
+  }, [signature]);
+
+  return null;
+};
+
+const productJsonLd = (product: Product, lang: Language) => ({
+  '@context': 'https://schema.org',
+  '@type': 'Product',
+  name: localize(product.name, lang),
+  description: localize(product.shortDescription, lang),
+  image: [product.image, ...(product.otherImages || [])],
+  sku: product.id,
+  ...(product.model ? { model: product.model, mpn: product.model } : {}),
+  brand: { '@type': 'Brand', name: localize(product.manufacturer, lang) },
+  category: localize(product.category, lang),
+  countryOfOrigin: localize(product.countryOfOrigin, lang),
+  url: absoluteUrl(lang, `/products/${product.id}`),
+  ...(getDisplayPrice(product) !== undefined ? {
+    offers: {
+      '@type': 'Offer',
+      price: getDisplayPrice(product)!.toFixed(2),
+      priceCurrency: 'SAR',
+      ...(product.availability ? { availability: `https://schema.org/${SCHEMA_AVAILABILITY[product.availability]}` } : {}),
+      url: absoluteUrl(lang, `/products/${product.id}`),
+    },
+  } : {}),
+});
+
+const faqJsonLd = (faqs: FAQ[], lang: Language) => ({
+  '@context': 'https://schema.org',
+  '@type': 'FAQPage',
+  mainEntity: faqs.map(faq => ({
+    '@type': 'Question',
+    name: localize(faq.question, lang),
+    acceptedAnswer: { '@type': 'Answer', text: localize(faq.answer, lang) },
+  })),
+});
+
+// --- Category Tree ---
+const buildCategoryTree = (categories: Category[]): CategoryTree => {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const sorted = [...categories].sort((a, b) => a.order - b.order);
+  const childrenOf = (parent: string | undefined) => sorted.filter(category => category.parent === parent);
+  const path = (id: string) => {
+    const ancestors: Category[] = [];
+    for (let category = byId.get(id); category && !ancestors.includes(category); category = category.parent ? byId.get(category.parent) : undefined) {
+      ancestors.unshift(category);
+    }
+    return ancestors;
+  };
+
+  const flatten = (parent: string | undefined, depth: number): { category: Category; depth: number }[] =>
+    childrenOf(parent).flatMap(category => [{ category, depth }, ...flatten(category.id, depth + 1)]);
+
+  return {
+    roots: childrenOf(undefined),
+    get: (id) => byId.get(id),
+    children: (id) => childrenOf(id),
+    path,
+    flatten: () => flatten(undefined, 0),
+    contains: (categoryId, product) => {
+      const own = product.subCategory || product.mainCategory;
+      return !!own && path(own).some(category => category.id === categoryId);
+    },
+  };
+};
+
+// --- Spec Helpers ---
+// Number filters live in the URL as "min-max" (either side may be empty),
+// enum filters as a comma separated list and boolean filters as "1".
+const parseRange = (value: string) => {
+  const [min = '', max = ''] = value.split('-');
+  return { min, max };
+};
+
+const matchesSpecFilters = (product: Product, definitions: SpecDefinition[], searchParams: URLSearchParams) =>
+  definitions.every(definition => {
+    const filter = searchParams.get(definition.key);
+    if (!filter) return true;
+    const value = product.specs?.[definition.key];
+    switch (definition.type) {
+      case 'number': {
+        const { min, max } = parseRange(filter);
+        return getSpecNumbers(product.specs, definition.key).some(n =>
+          (min === '' || n >= Number(min)) && (max === '' || n <= Number(max))
+        );
+      }
+      case 'enum':
+        return typeof value === 'string' && filter.split(',').includes(value);
+      case 'boolean':
+        return value === true;
+    }
+  });
+
+// --- Pricing ---
+const SCHEMA_AVAILABILITY: Record<Availability, string> = {
+  inStock: 'InStock',
+  lowStock: 'LimitedAvailability',
+  outOfStock: 'OutOfStock',
+  backorder: 'BackOrder',
+};
+
+// Products that can ship now, for the "in stock only" filter.
+const READY_TO_SHIP: Availability[] = ['inStock', 'lowStock'];
+
+const PRICE_FILTER_KEYS = ['inStock', 'price'] as const;
+
+// "inStock=1" keeps products that can ship now; "price=min-max" compares VAT-inclusive prices.
+const matchesPriceFilters = (product: Product, searchParams: URLSearchParams) => {
+  if (searchParams.get('inStock') === '1' && !(product.availability && READY_TO_SHIP.includes(product.availability))) {
+    return false;
+  }
+  const priceFilter = searchParams.get('price');
+  if (!priceFilter) return true;
+  const price = getDisplayPrice(product);
+  const { min, max } = parseRange(priceFilter);
+  return price !== undefined && (min === '' || price >= Number(min)) && (max === '' || price <= Number(max));
+};
+
+// --- Product Options ---
+// The selected value of every option: the one named in the URL when it exists, otherwise the first.
+const getOptionSelection = (product: Product, params: URLSearchParams | OptionSelection = {}): OptionSelection =>
+  Object.fromEntries((product.options || []).map(option => {
+    const requested = params instanceof URLSearchParams ? params.get(option.id) : params[option.id];
+    return [option.id, (option.values.find(value => value.id === requested) ?? option.values[0]).id];
+  }));
+
+// The product as configured, with the overrides of each selected value applied in option order.
+const applyOptionSelection = (product: Product, selection: OptionSelection): Product =>
+  (product.options || []).reduce<Product>((configured, option) => {
+    const value = option.values.find(candidate => candidate.id === selection[option.id]);
+    if (!value) return configured;
+    return {
+      ...configured,
+      ...(value.images?.length ? { image: value.images[0], otherImages: value.images.slice(1) } : {}),
+      ...(value.model ? { model: value.model } : {}),
+      ...(value.specs ? { specs: { ...configured.specs, ...value.specs } } : {}),
+      ...(value.price !== undefined ? { price: value.price } : {}),
+      ...(value.availability ? { availability: value.availability } : {}),
+    };
+  }, product);
+
+// "Seat width: 42 cm" for each option, for quote requests.
+const describeOptionSelection = (product: Product, selection: OptionSelection, lang: Language) =>
+  (product.options || []).flatMap(option => {
+    const value = option.values.find(candidate => candidate.id === selection[option.id]);
+    return value ? [`${localize(option.label, lang)}: ${localize(value.label, lang)}`] : [];
+  });
+
+// "eos&seatWidth=42&sideguards=fixed": the product and its options in a fixed order.
+const quoteItemKey = ({ productId, options = {} }: Pick<QuoteItem, 'productId' | 'options'>) =>
+  [productId, ...Object.keys(options).sort().map(id => `${id}=${options[id]}`)].join('&');
+
+const productOptionsPath = (product: Product, selection: OptionSelection = {}) => {
+  const query = new URLSearchParams(selection).toString();
+  return `/products/${product.id}${query ? `?${query}` : ''}`;
+};
+
+// --- Search ---
+// Folds Arabic spelling variants (hamza forms, taa marbuta, alef maqsura), strips
+// tashkeel/tatweel and Latin accents, and maps Arabic-Indic digits to ASCII.
+const normalizeSearchText = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f\u064b-\u065f\u0670\u0640]/g, '')
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(/ؤ/g, 'و')
+    .replace(/ئ/g, 'ي')
+    .replace(/[٠-٩]/g, digit => String(digit.charCodeAt(0) - 0x0660));
+
+// The Arabic definite article is dropped so "الكرسي" and "كرسي" index as the same term.
+const tokenize = (text: string | undefined) =>
+  text
+    ? normalizeSearchText(text)
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean)
+        .map(token => token.length > 4 && token.startsWith('ال') ? token.slice(2) : token)
+    : [];
+
+// Optimal string alignment distance, so a swapped pair of letters counts as one typo.
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows[i] = [i];
+    for (let j = 1; j <= b.length; j++) {
+      if (i === 0) {
+        rows[i][j] = j;
+        continue;
+      }
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
   }
-  return <>{text}</>;
+  return rows[a.length][b.length];
+};
+
+// 1 for an exact term, less for a prefix or a near miss, 0 for no match.
+const matchQuality = (queryToken: string, term: string) => {
+  if (term === queryToken) return 1;
+  if (queryToken.length >= 2 && term.startsWith(queryToken)) return 0.8;
+  const allowedTypos = queryToken.length >= 8 ? 2 : queryToken.length >= 4 ? 1 : 0;
+  if (allowedTypos > 0 && editDistance(queryToken, term, allowedTypos) <= allowedTypos) return 0.5;
+  return 0;
+};
+
+const SEARCH_FIELD_WEIGHTS = {
+  name: 5,
+  model: 5,
+  manufacturer: 3,
+  category: 2,
+  shortDescription: 1,
+  features: 1,
+};
+
+const buildSearchIndex = (products: Product[]): SearchIndex => {
+  const documents = products.map(product => {
+    const terms = new Map<string, number>();
+    const addField = (text: string | undefined, weight: number) =>
+      tokenize(text).forEach(term => terms.set(term, Math.max(terms.get(term) || 0, weight)));
+
+    SUPPORTED_LANGUAGES.forEach(l => {
+      addField(product.name[l], SEARCH_FIELD_WEIGHTS.name);
+      addField(product.manufacturer[l], SEARCH_FIELD_WEIGHTS.manufacturer);
+      addField(product.category[l], SEARCH_FIELD_WEIGHTS.category);
+      addField(product.shortDescription[l], SEARCH_FIELD_WEIGHTS.shortDescription);
+      product.features.forEach(feature => addField(feature[l], SEARCH_FIELD_WEIGHTS.features));
+    });
+    addField(product.model, SEARCH_FIELD_WEIGHTS.model);
+    return { id: product.id, terms };
+  });
+  const vocabulary = [...new Set(documents.flatMap(doc => [...doc.terms.keys()]))];
+
+  return {
+    search: (query) => {
+      // Resolve each query token against the vocabulary once, then score documents from the lookups.
+      const tokenMatches = tokenize(query).map(queryToken => {
+        const matches = new Map<string, number>();
+        vocabulary.forEach(term => {
+          const quality = matchQuality(queryToken, term);
+          if (quality > 0) matches.set(term, quality);
+        });
+        return matches;
+      });
+
+      const scores = new Map<string, number>();
+      documents.forEach(doc => {
+        let total = 0;
+        for (const matches of tokenMatches) {
+          let best = 0;
+          matches.forEach((quality, term) => {
+            best = Math.max(best, (doc.terms.get(term) || 0) * quality);
+          });
+          if (best === 0) return;
+          total += best;
+        }
+        scores.set(doc.id, total);
+      });
+      return scores;
+    },
+  };
 };
 
 // ScrollToTop Component for Router
@@ -97,13 +874,106 @@ const ScrollToTop = () => {
   return null;
 };
 
+// Sends URLs without a language segment (including legacy #/ links) and URLs with a
+// ?lang= param to their canonical /<lang>/... form.
+const LanguageRedirect: React.FC = () => {
+  const location = useLocation();
+  const legacyPath = location.hash.startsWith('#/') ? location.hash.slice(1) : null;
+  const [pathname, search = ''] = (legacyPath ?? `${location.pathname}${location.search}`).split('?');
+  const params = new URLSearchParams(search);
+  const requested = params.get('lang');
+  params.delete('lang');
+  const lang = isLanguage(requested) ? requested : getPathLanguage(pathname) ?? getPreferredLanguage();
+  const query = params.toString();
+  return <Navigate to={`${localizePath(lang, stripPathLanguage(pathname))}${query ? `?${query}` : ''}`} replace />;
+};
+
 // --- App Components ---
 
+// Each option is labelled in its own language and script so visitors can find theirs.
+const LanguageMenu: React.FC<{
+  lang: Language;
+  setLang: (lang: Language) => void;
+  onSelect?: () => void;
+  placement?: 'below' | 'above';
+}> = ({ lang, setLang, onSelect, placement = 'below' }) => {
+  const { t } = useT();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const handleClick = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+        buttonRef.current?.focus();
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const selectLanguage = (nextLang: Language) => {
+    setIsOpen(false);
+    onSelect?.();
+    if (nextLang !== lang) {
+      setLang(nextLang);
+    }
+  };
+
+  return (
+    <div className={`language-menu ${placement === 'above' ? 'opens-above' : ''} ${isOpen ? 'open' : ''}`} ref={menuRef}>
+      <button
+        ref={buttonRef}
+        className="lang-switcher"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={t('ariaLanguageMenu')}
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+      >
+        <span lang={lang}>{LOCALES[lang].nativeName}</span>
+        <span className="language-menu-chevron" aria-hidden="true"></span>
+      </button>
+      {isOpen && (
+        <ul className="language-menu-list">
+          {SUPPORTED_LANGUAGES.map(code => (
+            <li key={code}>
+              <button
+                lang={code}
+                dir={LOCALES[code].dir}
+                className={code === lang ? 'active' : ''}
+                aria-current={code === lang ? 'true' : undefined}
+                onClick={() => selectLanguage(code)}
+              >
+                {LOCALES[code].nativeName}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
 const Header: React.FC<{
   lang: Language;
   setLang: (lang: Language) => void;
-  translations: any;
-}> = ({ lang, setLang, translations }) => {
+  quoteCount: number;
+  categoryTree: CategoryTree;
+}> = ({ lang, setLang, quoteCount, categoryTree }) => {
+  const { t } = useT();
   const [scrolled, setScrolled] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const location = useLocation();
@@ -127,51 +997,25 @@ const Header: React.FC<{
     };
   }, [isMenuOpen]);
 
-  const navLinks = [
-    { path: '/', label: translations.navHome, end: true },
-    { path: '/about', label: translations.navAbout },
-    { path: '/products', label: translations.navProducts, isProduct: true },
-    { path: '/services', label: translations.navServices },
-    { path: '/faq', label: translations.navFAQ },
-    { path: '/contact', label: translations.navContact },
-  ];
-
-  const productCategories = [
-      { key: 'sport-lightweight', translationKey: 'categorySportLightweight' },
-      { key: 'lightweight', translationKey: 'categoryLightweight' },
-      { key: 'electric', translationKey: 'categoryElectric' },
-      { key: 'children', translationKey: 'categoryChildren' },
-      { key: 'standard', translationKey: 'categoryStandard' },
-      { key: 'bathroom', translationKey: 'categoryBathroom' },
-      { key: 'accessories', translationKey: 'categoryAccessories' },
-      { key: 'movable', translationKey: 'categoryMovable' },
-      { key: 'beds', translationKey: 'categoryMedicalBeds' },
-      { key: 'mattresses', translationKey: 'categoryMattresses' },
-      { key: 'walkers', translationKey: 'categoryWalkers' },
-      { key: 'diapers', translationKey: 'categoryDiapers' },
-      { key: 'cushions', translationKey: 'categoryCushions' },
-      { key: 'respiratory', translationKey: 'categoryRespiratory' },
-      { key: 'diagnostic', translationKey: 'categoryDiagnostic' },
-      { key: 'furniture', translationKey: 'categoryFurniture' },
-      { key: 'consumables', translationKey: 'categoryConsumables' },
+  const navLinks: { path: string; labelKey: TranslationKey; end?: boolean; isProduct?: boolean }[] = [
+    { path: '/', labelKey: 'navHome', end: true },
+    { path: '/about', labelKey: 'navAbout' },
+    { path: '/products', labelKey: 'navProducts', isProduct: true },
+    { path: '/services', labelKey: 'navServices' },
+    { path: '/faq', labelKey: 'navFAQ' },
+    { path: '/contact', labelKey: 'navContact' },
   ];
   
   const closeMenu = () => setIsMenuOpen(false);
 
   return (
-    <header className={`${scrolled ? 'scrolled' : ''} ${lang === 'ar' ? 'rtl' : ''} ${isMenuOpen ? 'menu-open' : ''}`}>
+    <header className={`${scrolled ? 'scrolled' : ''} ${isRtl(lang) ? 'rtl' : ''} ${isMenuOpen ? 'menu-open' : ''}`}>
       <div className="container">
         <div className="logo-area">
-            <Link to="/" onClick={closeMenu} className="logo" aria-label={translations.ariaHomepage[lang]}>
-              <img src="https://i.imgur.com/sUARy23.png" alt="Wheel of Excellence Logo" />
+            <Link to={localizePath(lang, '/')} onClick={closeMenu} className="logo" aria-label={t('ariaHomepage')}>
+              <ResponsiveImage src={SITE_IMAGES.logo} alt="Wheel of Excellence Logo" sizes="10rem" loading="eager" />
             </Link>
-            <button
-              className="lang-switcher"
-              onClick={() => setLang(lang === 'en' ? 'ar' : 'en')}
-              aria-label={translations.ariaSwitchLang[lang]}
-            >
-              {lang === 'en' ? 'العربية' : 'English'}
-            </button>
+            <LanguageMenu lang={lang} setLang={setLang} onSelect={closeMenu} />
         </div>
 
         <nav className={isMenuOpen ? 'open' : ''}>
@@ -179,24 +1023,39 @@ const Header: React.FC<{
             {navLinks.map((link) => (
               <li key={link.path} className={link.isProduct ? 'has-dropdown' : ''}>
                 <NavLink
-                  to={link.path}
+                  to={localizePath(lang, link.path)}
                   end={link.end}
                   className={({ isActive }) => isActive || (link.isProduct && location.pathname.includes('/products')) ? 'active' : ''}
                   onClick={closeMenu}
                 >
-                  <T content={link.label} lang={lang} />
+                  {t(link.labelKey)}
                   {link.isProduct && <span className="chevron"></span>}
                 </NavLink>
                 {link.isProduct && (
                   <ul className="dropdown-menu">
-                    {productCategories.map(category => (
-                        <li key={category.key}>
+                    {categoryTree.roots.map(category => (
+                        <li key={category.id}>
                             <Link 
-                                to={`/products?category=${category.key}`}
+                                to={localizePath(lang, `/products/category/${category.id}`)}
                                 onClick={closeMenu}
                             >
-                                <T content={translations[category.translationKey]} lang={lang} />
+                                {category.icon && <span className="category-icon" aria-hidden="true">{category.icon}</span>}
+                                <T content={category.name} lang={lang} />
                             </Link>
+                            {categoryTree.children(category.id).length > 0 && (
+                                <ul className="dropdown-submenu">
+                                    {categoryTree.children(category.id).map(child => (
+                                        <li key={child.id}>
+                                            <Link
+                                                to={localizePath(lang, `/products/category/${child.id}`)}
+                                                onClick={closeMenu}
+                                            >
+                                                <T content={child.name} lang={lang} />
+                                            </Link>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
                         </li>
                     ))}
                   </ul>
@@ -207,10 +1066,14 @@ const Header: React.FC<{
         </nav>
 
         <div className="header-right">
+            <Link to={localizePath(lang, '/quote')} className="quote-link" onClick={closeMenu} aria-label={t('ariaQuoteBasket', { count: quoteCount })}>
+              <i className="icon-quote" aria-hidden="true"></i>
+              {quoteCount > 0 && <span className="quote-count">{quoteCount}</span>}
+            </Link>
             <button 
               className="menu-toggle" 
               onClick={() => setIsMenuOpen(!isMenuOpen)}
-              aria-label={isMenuOpen ? translations.ariaCloseMenu[lang] : translations.ariaOpenMenu[lang]}
+              aria-label={isMenuOpen ? t('ariaCloseMenu') : t('ariaOpenMenu')}
               aria-expanded={isMenuOpen}
             >
               <span className="bar"></span>
@@ -226,91 +1089,89 @@ const Header: React.FC<{
 const Footer: React.FC<{ 
     lang: Language, 
     setLang: (lang: Language) => void, 
-    translations: any
-}> = ({ lang, setLang, translations }) => {
+    contact: ContactSettings,
+}> = ({ lang, setLang, contact }) => {
+  const { t } = useT();
     
-  const topNavLinks = [
-    { path: '/', label: translations.navHome },
-    { path: '/about', label: translations.navAbout },
-    { path: '/products', label: translations.navProducts },
-    { path: '/services', label: translations.navServices },
-    { path: '/faq', label: translations.navFAQ },
-    { path: '/contact', label: translations.navContact },
+  const topNavLinks: { path: string; labelKey: TranslationKey }[] = [
+    { path: '/', labelKey: 'navHome' },
+    { path: '/about', labelKey: 'navAbout' },
+    { path: '/products', labelKey: 'navProducts' },
+    { path: '/services', labelKey: 'navServices' },
+    { path: '/faq', labelKey: 'navFAQ' },
+    { path: '/contact', labelKey: 'navContact' },
   ];
   
   return (
-    <footer className={lang === 'ar' ? 'rtl' : ''}>
+    <footer className={isRtl(lang) ? 'rtl' : ''}>
         <div className="container">
             <div className="footer-top">
                  <nav className="footer-nav">
                     <ul>
                         {topNavLinks.map((link) => (
                           <li key={link.path}>
-                            <Link to={link.path}>
-                              <T content={link.label} lang={lang} />
+                            <Link to={localizePath(lang, link.path)}>
+                              {t(link.labelKey)}
                             </Link>
                           </li>
                         ))}
                     </ul>
                 </nav>
-                <button
-                  className="lang-switcher"
-                  onClick={() => setLang(lang === 'en' ? 'ar' : 'en')}
-                  aria-label={translations.ariaSwitchLang[lang]}
-                >
-                  {lang === 'en' ? 'العربية' : 'English'}
-                </button>
+                <LanguageMenu lang={lang} setLang={setLang} placement="above" />
             </div>
             <div className="footer-main">
                 <div className="footer-col">
-                    <img src="https://i.imgur.com/sUARy23.png" alt="Wheel of Excellence Logo" className="footer-logo" loading="lazy" />
-                    <p><T content={translations.footerSlogan} lang={lang} /></p>
+                    <ResponsiveImage src={SITE_IMAGES.logo} alt="Wheel of Excellence Logo" className="footer-logo" sizes="10rem" loading="lazy" />
+                    <p>{t('footerSlogan')}</p>
                 </div>
                 <div className="footer-col">
-                    <h3><T content={translations.footerLinks} lang={lang} /></h3>
+                    <h3>{t('footerLinks')}</h3>
                     <ul>
-                        <li><Link to="/about"><T content={translations.navAbout} lang={lang} /></Link></li>
-                        <li><Link to="/products"><T content={translations.navProducts} lang={lang} /></Link></li>
-                        <li><Link to="/services"><T content={translations.navServices} lang={lang} /></Link></li>
-                        <li><Link to="/faq"><T content={translations.navFAQ} lang={lang} /></Link></li>
+                        <li><Link to={localizePath(lang, '/about')}>{t('navAbout')}</Link></li>
+                        <li><Link to={localizePath(lang, '/products')}>{t('navProducts')}</Link></li>
+                        <li><Link to={localizePath(lang, '/services')}>{t('navServices')}</Link></li>
+                        <li><Link to={localizePath(lang, '/faq')}>{t('navFAQ')}</Link></li>
+                        {ticketSource && <li><Link to={localizePath(lang, '/track')}>{t('navTrack')}</Link></li>}
+                        <li><Link to={localizePath(lang, '/assistant')}>{t('navAssistant')}</Link></li>
                     </ul>
                 </div>
                 <div className="footer-col">
-                    <h3><T content={translations.navContact} lang={lang} /></h3>
+                    <h3>{t('navContact')}</h3>
                     <div className="contact-list">
                       <p className="contact-item"><span>An Nahadhah, Riyadh, Saudi Arabia</span><i className="icon-map"></i></p>
-                      <p className="contact-item"><span dir="ltr">+966 505 203 532</span><i className="icon-phone"></i></p>
-                      <p className="contact-item"><span dir="ltr">Customer@woe.sa</span><i className="icon-email"></i></p>
+                      <p className="contact-item"><a href={telLink(contact.phone)} dir="ltr">{formatPhoneNumber(contact.phone)}</a><i className="icon-phone"></i></p>
+                      <p className="contact-item"><a href={`mailto:${contact.email}`} dir="ltr">{contact.email}</a><i className="icon-email"></i></p>
                     </div>
                 </div>
                  <div className="footer-col">
-                    <h3><T content={translations.footerSocial} lang={lang} /></h3>
+                    <h3>{t('footerSocial')}</h3>
                     <div className="social-icons">
-                        <a href="https://x.com/excellence65" target="_blank" rel="noopener noreferrer" aria-label={translations.ariaFollowX[lang]}>
+                        <a href="https://x.com/excellence65" target="_blank" rel="noopener noreferrer" aria-label={t('ariaFollowX')}>
                             <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 512 512"><path d="M389.2 48h70.6L305.6 224.2 487 464H345L233.7 318.6 106.5 464H35.8L200.7 275.5 26.8 48H172.4L272.9 180.9 389.2 48zM364.4 421.8h39.1L151.1 88h-42L364.4 421.8z"/></svg>
                         </a>
-                        <a href="https://instagram.com/clever_881" target="_blank" rel="noopener noreferrer" aria-label={translations.ariaFollowInstagram[lang]}>
+                        <a href="https://instagram.com/clever_881" target="_blank" rel="noopener noreferrer" aria-label={t('ariaFollowInstagram')}>
                             <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 448 512"><path d="M224.1 141c-63.6 0-114.9 51.3-114.9 114.9s51.3 114.9 114.9 114.9S339 319.5 339 255.9 287.7 141 224.1 141zm0 189.6c-41.1 0-74.7-33.5-74.7-74.7s33.5-74.7 74.7-74.7 74.7 33.5 74.7 74.7-33.5 74.7-74.7 74.7zm146.4-194.3c0 14.9-12 26.8-26.8 26.8-14.9 0-26.8-12-26.8-26.8s12-26.8 26.8-26.8 26.8 12 26.8 26.8zm76.1 27.2c-1.7-35.9-9.9-67.7-36.2-93.9-26.2-26.2-58-34.4-93.9-36.2-37-2.1-147.9-2.1-184.9 0-35.8 1.7-67.6 9.9-93.9 36.1s-34.4 58-36.2 93.9c-2.1 37-2.1 147.9 0 184.9 1.7 35.9 9.9 67.7 36.2 93.9s58 34.4 93.9 36.2c37 2.1 147.9 2.1 184.9 0 35.9-1.7 67.7-9.9 93.9-36.2 26.2-26.2 34.4-58 36.2-93.9 2.1-37 2.1-147.8 0-184.8zM398.8 388c-7.8 19.6-22.9 34.7-42.6 42.6-29.5 11.7-99.5 9-132.1 9s-102.7 2.6-132.1-9c-19.6-7.8-34.7-22.9-42.6-42.6-11.7-29.5-9-99.5-9-132.1s-2.6-102.7 9-132.1c7.8-19.6 22.9-34.7 42.6-42.6 29.5-11.7 99.5-9 132.1-9s102.7-2.6 132.1 9c19.6 7.8 34.7 22.9 42.6 42.6 11.7 29.5 9 99.5 9 132.1s2.7 102.7-9 132.1z"/></svg>
                         </a>
-                        <a href="https://www.snapchat.com/explore/excellence65" target="_blank" rel="noopener noreferrer" aria-label={translations.ariaFollowSnapchat[lang]}>
+                        <a href="https://www.snapchat.com/explore/excellence65" target="_blank" rel="noopener noreferrer" aria-label={t('ariaFollowSnapchat')}>
                             <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 512 512"><path d="M256 64C152.6 64 87.5 132.7 81.6 197.5c-1 10.9 5.8 21.2 16.1 24.5l16.7 5.3c8.6 2.7 15.1 9.9 17 18.8l1 4.9c3.2 15.2-8.4 29.3-23.8 29.3H100.2c-16.8 0-31.7 9.4-39.1 24.5l-4.1 8.4c-10 20.5 5.1 44.8 27.8 44.8 12.1 0 23.1 6.7 28.8 17.4l1.4 2.6c13.8 26.2 53.6 30 72.6 7l4.9-6c8.7-10.5 24.2-14.4 37.1-9.3l2.9 1.1c16 6.4 34.1 6.4 50.1 0l2.9-1.1c12.9-5.1 28.4-1.2 37.1 9.3l4.9 6c19 23 58.8 19.2 72.6-7l1.4-2.6c5.7-10.8 16.7-17.4 28.8-17.4 22.7 0 37.8-24.3 27.8-44.8l-4.1-8.4c-7.4-15.1-22.3-24.5-39.1-24.5h-8.4c-15.3 0-27-14.1-23.8-29.3l1-4.9c1.9-8.9 8.4-16.1 17-18.8l16.7-5.3c10.3-3.3 17.1-13.6 16.1-24.5C424.5 132.7 359.4 64 256 64z"/></svg>
                         </a>
-                        <a href="https://api.whatsapp.com/send?phone=966505203532" target="_blank" rel="noopener noreferrer" aria-label={translations.ariaFollowWhatsApp[lang]}>
-                            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 448 512"><path d="M380.9 97.1C339 55.1 283.2 32 223.9 32c-122.4 0-222 99.6-222 222 0 39.1 10.2 77.3 29.6 111L0 480l117.7-30.9c32.4 17.7 68.9 27 106.1 27h.1c122.3 0 224.1-99.6 224.1-222 0-59.3-25.2-115-67.1-157zm-157 341.6c-33.2 0-65.7-8.9-94-25.7l-6.7-4-69.8 18.3L72 359.2l-4.4-7c-18.5-29.4-28.2-63.3-28.2-98.2 0-101.7 82.8-184.5 184.6-184.5 49.3 0 95.6 19.2 130.4 54.1 34.8 34.9 56.2 81.2 56.1 130.5 0 101.8-84.9 184.6-186.6 184.6zm101.2-138.2c-5.5-2.8-32.8-16.2-37.9-18-5.1-1.9-8.8-2.8-12.5 2.8-3.7 5.6-14.3 18-17.6 21.8-3.2 3.7-6.5 4.2-12 1.4-32.6-16.3-54-29.1-75.5-66-5.7-9.8 5.7-9.1 16.3-30.3 1.8-3.7.9-6.9-.5-9.7-1.4-2.8-12.5-30.1-17.1-41.2-4.5-10.8-9.1-9.3-12.5-9.5-3.2-.2-6.9-.2-10.6-.2-3.7 0-9.7 1.4-14.8 6.9-5.1 5.6-19.4 19-19.4 46.3 0 27.3 19.9 53.7 22.6 57.4 2.8 3.7 39.1 59.7 94.8 83.8 35.2 15.2 49 16.5 66.6 13.9 10.7-1.6 32.8-13.4 37.4-26.4 4.6-13 4.6-24.1 3.2-26.4-1.3-2.5-5-3.9-10.5-6.6z"/></svg>
+                        <a href={whatsappLink(contact.whatsapp, fillMessageTemplate(localize(contact.messages.general, lang), {}))} target="_blank" rel="noopener noreferrer" aria-label={t('ariaFollowWhatsApp')}>
+                            <WhatsAppIcon />
                         </a>
                     </div>
                 </div>
             </div>
         </div>
         <div className="footer-bottom">
-            <p>&copy; 2025 <T content={translations.footerRights} lang={lang} /></p>
+            <p>&copy; 2025 {t('footerRights')}</p>
         </div>
     </footer>
   );
 };
 
 
-const ScrollToTopButton: React.FC<{ translations: any; lang: Language }> = ({ translations, lang }) => {
+const ScrollToTopButton: React.FC<{ lang: Language }> = ({ lang }) => {
+  const { t } = useT();
   const [isVisible, setIsVisible] = useState(false);
 
   useEffect(() => {
@@ -338,93 +1199,956 @@ const ScrollToTopButton: React.FC<{ translations: any; lang: Language }> = ({ tr
     <button
       className={`scroll-to-top ${isVisible ? 'visible' : ''}`}
       onClick={scrollToTop}
-      aria-label={translations.ariaScrollToTop[lang]}
+      aria-label={t('ariaScrollToTop')}
     >
       &#8679;
     </button>
   );
 };
 
-
-// --- Pages ---
-const HomePage: React.FC<{ 
-    data: AppData; 
-    lang: Language; 
-    translations: any;
-}> = ({ data, lang, translations }) => {
-  const [currentSlide, setCurrentSlide] = useState(0);
-  const navigate = useNavigate();
+// Tells visitors when they are browsing the cached catalog and when messages they
+// sent offline have gone out. Queued messages are retried whenever the device reconnects.
+const OfflineStatus: React.FC = () => {
+  const { t } = useT();
+  const [isOffline, setIsOffline] = useState(false);
+  const [sentCount, setSentCount] = useState(0);
 
   useEffect(() => {
-    const timer = setInterval(() => {
-      setCurrentSlide((prev) => (prev + 1) % data.slides.length);
-    }, 5000);
-    return () => clearInterval(timer);
-  }, [data.slides.length]);
+    const updateStatus = async () => {
+      setIsOffline(!navigator.onLine);
+      if (navigator.onLine) {
+        const sent = await flushOutbox();
+        if (sent > 0) {
+          setSentCount(sent);
+        }
+      }
+    };
+    updateStatus();
+    window.addEventListener('online', updateStatus);
+    window.addEventListener('offline', updateStatus);
+    return () => {
+      window.removeEventListener('online', updateStatus);
+      window.removeEventListener('offline', updateStatus);
+    };
+  }, []);
 
-  const featuredProducts = data.products.filter(p => p.isFeatured);
+  useEffect(() => {
+    if (sentCount === 0) {
+      return;
+    }
+    const timer = setTimeout(() => setSentCount(0), 6000);
+    return () => clearTimeout(timer);
+  }, [sentCount]);
 
   return (
-    <>
-      {/* Hero Slider */}
-      <section className="hero">
-        {data.slides.map((slide, index) => (
-          <div
-            key={index}
-            className={`hero-slide ${index === currentSlide ? 'active' : ''}`}
-            style={{ backgroundImage: `url(${slide.image})` }}
-          >
-             {index === 0 && <img src={slide.image} alt="" style={{display: 'none'}} />}
-            <div className="hero-content">
-              <h1><T content={slide.title} lang={lang} /></h1>
-              <p><T content={slide.subtitle} lang={lang} /></p>
-              <Link to="/products" className="cta-button">
-                <T content={translations.heroButton} lang={lang} />
-              </Link>
-            </div>
-          </div>
-        ))}
-        <div className="slider-dots">
-            {data.slides.map((_, index) => (
-                <button
-                    key={index}
-                    className="dot"
-                    aria-current={index === currentSlide}
-                    onClick={() => setCurrentSlide(index)}
-                    aria-label={`${translations.ariaGoToSlide[lang]} ${index + 1}`}
-                />
-            ))}
-        </div>
-      </section>
-
-      {/* About Section Preview */}
-      <section className="about-section">
-          <div className="container">
-              <h2 className="page-title"><T content={translations.homeAboutTitle} lang={lang} /></h2>
-              <div className="title-divider"></div>
-              <div className="home-about-content">
-                  <div className="home-about-text">
-                      <p><T content={translations.homeAboutText} lang={lang} /></p>
-                      <Link to="/about" className="cta-button"><T content={translations.homeAboutButton} lang={lang} /></Link>
-                  </div>
-                  <div className="home-about-image">
-                      <img src="https://i.imgur.com/xApFqZi.jpeg" alt={translations.homeAboutImageAlt[lang]} loading="lazy" />
-                  </div>
-              </div>
-          </div>
-      </section>
+    <div className="offline-status" role="status">
+      {isOffline ? t('offlineNotice') : sentCount > 0 ? t('outboxSent', { count: sentCount }) : null}
+    </div>
+  );
+};
+
+// VAT-inclusive price, "price on request", or nothing when the product has no price.
+const ProductPrice: React.FC<{ product: Product }> = ({ product }) => {
+    const { t } = useT();
+    const price = getDisplayPrice(product);
+    if (price === undefined) {
+        return product.priceOnRequest ? <p className="product-price on-request">{t('priceOnRequest')}</p> : null;
+    }
+    const amount = formatAmount(price);
+    const rate = Math.round(VAT_RATE * 100);
+    return (
+        <p className="product-price">
+            <span className="price-amount">{t('priceAmount', { amount })}</span>
+            <span className="price-vat">{t('priceVatIncluded', { rate })}</span>
+        </p>
+    );
+};
+
+const StockBadge: React.FC<{ availability?: Availability }> = ({ availability }) => {
+    const { t } = useT();
+    if (!availability) {
+        return null;
+    }
+    return <span className={`stock-badge stock-${availability}`}>{t(AVAILABILITY_LABELS[availability])}</span>;
+};
+
+// --- Product Gallery ---
+type GalleryItem =
+  | { kind: 'image'; src: string }
+  | { kind: 'spin'; frames: string[] }
+  | { kind: 'video'; src: string; poster: string };
+
+const MAX_ZOOM = 4;
+const SWIPE_DISTANCE = 50; // px
+
+const getGalleryItems = (product: Product): GalleryItem[] => [
+  ...[product.image, ...(product.otherImages || [])].map(src => ({ kind: 'image' as const, src })),
+  ...(product.spinImages?.length ? [{ kind: 'spin' as const, frames: product.spinImages }] : []),
+  ...(product.video ? [{ kind: 'video' as const, src: product.video, poster: product.image }] : []),
+];
+
+// Arrow keys and swipes follow the reading direction: in Arabic, ArrowLeft and a
+// swipe to the right move to the next item.
+const arrowStep = (key: string, lang: Language) => {
+  const step = key === 'ArrowRight' ? 1 : key === 'ArrowLeft' ? -1 : 0;
+  return isRtl(lang) ? -step : step;
+};
+const swipeStep = (distance: number, lang: Language) => {
+  const step = distance < 0 ? 1 : -1;
+  return isRtl(lang) ? -step : step;
+};
+
+const clampZoom = (scale: number) => Math.min(MAX_ZOOM, Math.max(1, scale));
+
+const wrapIndex = (index: number, count: number) => (index % count + count) % count;
+
+// Tracks a one-finger horizontal swipe; mouse drags are left to buttons and zoom.
+const useSwipe = (onSwipe: (distance: number) => void) => {
+    const start = useRef<{ x: number; y: number } | null>(null);
+    return {
+        onPointerDown: (e: React.PointerEvent) => {
+            start.current = e.pointerType === 'mouse' || !e.isPrimary ? null : { x: e.clientX, y: e.clientY };
+        },
+        onPointerUp: (e: React.PointerEvent) => {
+            if (!start.current) return;
+            const dx = e.clientX - start.current.x;
+            const dy = e.clientY - start.current.y;
+            start.current = null;
+            if (Math.abs(dx) > SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy)) {
+                onSwipe(dx);
+            }
+        },
+        onPointerCancel: () => { start.current = null; },
+    };
+};
+
+// A 360° view is a slider: dragging across the whole image turns the product once,
+// and the arrow keys step one frame.
+const SpinViewer: React.FC<{ frames: string[]; alt: string; lang: Language }> = ({ frames, alt, lang }) => {
+    const { t } = useT();
+    const [frame, setFrame] = useState(0);
+    const drag = useRef<{ x: number; frame: number } | null>(null);
+
+    useEffect(() => {
+        // Load every frame up front so turning doesn't flicker.
+        frames.forEach(src => { new Image().src = imageUrl(src); });
+    }, [frames]);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        const step = arrowStep(e.key, lang);
+        if (step !== 0) {
+            setFrame(current => wrapIndex(current + step, frames.length));
+        } else if (e.key === 'Home' || e.key === 'End') {
+            setFrame(e.key === 'Home' ? 0 : frames.length - 1);
+        } else {
+            return;
+        }
+        e.preventDefault();
+        e.stopPropagation();
+    };
+
+    const position = t('galleryPosition', { index: frame + 1, count: frames.length });
+    return (
+        <div
+            className="gallery-spin"
+            role="slider"
+            tabIndex={0}
+            aria-label={t('gallerySpin')}
+            aria-valuemin={1}
+            aria-valuemax={frames.length}
+            aria-valuenow={frame + 1}
+            aria-valuetext={position}
+            title={t('gallerySpinHint')}
+            onKeyDown={handleKeyDown}
+            onPointerDown={(e: React.PointerEvent) => {
+                drag.current = { x: e.clientX, frame };
+                e.currentTarget.setPointerCapture(e.pointerId);
+                e.stopPropagation();
+            }}
+            onPointerMove={(e: React.PointerEvent) => {
+                if (!drag.current) return;
+                const width = e.currentTarget.clientWidth || 1;
+                const offset = Math.round((e.clientX - drag.current.x) / width * frames.length);
+                setFrame(wrapIndex(drag.current.frame + (isRtl(lang) ? -offset : offset), frames.length));
+            }}
+            onPointerUp={(e: React.PointerEvent) => {
+                drag.current = null;
+                e.stopPropagation();
+            }}
+            onPointerCancel={() => { drag.current = null; }}
+        >
+            <img src={imageUrl(frames[frame])} alt={alt} draggable={false} />
+            <span className="gallery-spin-badge" aria-hidden="true">360°</span>
+        </div>
+    );
+};
+
+const GalleryItemView: React.FC<{ item: GalleryItem; alt: string; lang: Language }> = ({ item, alt, lang }) => {
+    const { t } = useT();
+    if (item.kind === 'spin') {
+        return <SpinViewer frames={item.frames} alt={alt} lang={lang} />;
+    }
+    if (item.kind === 'video') {
+        return <video src={item.src} poster={imageUrl(item.poster)} controls preload="metadata" aria-label={t('galleryVideo')} />;
+    }
+    return <ResponsiveImage src={item.src} alt={alt} sizes={IMAGE_SIZES.half} draggable={false} />;
+};
+
+const GalleryThumbnail: React.FC<{ item: GalleryItem; index: number }> = ({ item, index }) => {
+    const { t } = useT();
+    if (item.kind === 'image') {
+        return <ResponsiveImage src={item.src} alt={`${t('thumbnailAlt')} ${index + 1}`} sizes={IMAGE_SIZES.thumbnail} loading="lazy" />;
+    }
+    const src = item.kind === 'spin' ? item.frames[0] : item.poster;
+    return (
+        <>
+            <ResponsiveImage src={src} alt={item.kind === 'spin' ? t('gallerySpin') : t('galleryVideo')} sizes={IMAGE_SIZES.thumbnail} loading="lazy" />
+            <span className="thumbnail-badge" aria-hidden="true">{item.kind === 'spin' ? '360°' : '▶'}</span>
+        </>
+    );
+};
+
+// Full-screen view of the gallery. Images zoom with the wheel, a pinch, a double
+// click or the +/- keys, and can be dragged around while zoomed.
+const GalleryLightbox: React.FC<{
+    items: GalleryItem[];
+    index: number;
+    onNavigate: (step: number) => void;
+    onClose: () => void;
+    alt: string;
+    lang: Language;
+}> = ({ items, index, onNavigate, onClose, alt, lang }) => {
+    const { t } = useT();
+    const item = items[index];
+    const [scale, setScale] = useState(1);
+    const [offset, setOffset] = useState({ x: 0, y: 0 });
+    const dialogRef = useRef<HTMLDivElement>(null);
+    const closeRef = useRef<HTMLButtonElement>(null);
+    const pointers = useRef(new Map<number, { x: number; y: number }>());
+    const pinch = useRef<{ distance: number; scale: number } | null>(null);
+    const swipe = useRef<{ x: number; y: number } | null>(null);
+
+    useEffect(() => {
+        const previousFocus = document.activeElement as HTMLElement | null;
+        const previousOverflow = document.body.style.overflow;
+        document.body.style.overflow = 'hidden';
+        closeRef.current?.focus();
+        return () => {
+            document.body.style.overflow = previousOverflow;
+            previousFocus?.focus();
+        };
+    }, []);
+
+    useEffect(() => {
+        setScale(1);
+        setOffset({ x: 0, y: 0 });
+    }, [index]);
+
+    const zoom = (nextScale: number) => {
+        const clamped = clampZoom(nextScale);
+        setScale(clamped);
+        if (clamped === 1) {
+            setOffset({ x: 0, y: 0 });
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        // The gallery behind the dialog handles arrow keys too.
+        e.stopPropagation();
+        if (e.key === 'Escape') {
+            onClose();
+        } else if (arrowStep(e.key, lang) !== 0 && !(e.target instanceof HTMLVideoElement)) {
+            onNavigate(arrowStep(e.key, lang));
+        } else if ((e.key === '+' || e.key === '=') && item.kind === 'image') {
+            zoom(scale * 1.5);
+        } else if (e.key === '-' && item.kind === 'image') {
+            zoom(scale / 1.5);
+        } else if (e.key === 'Tab') {
+            // Keep focus inside the dialog while it is open.
+            const focusable = Array.from(dialogRef.current?.querySelectorAll<HTMLElement>('button:not(:disabled), video, [tabindex="0"]') ?? []) as HTMLElement[];
+            const first = focusable[0];
+            const last = focusable[focusable.length - 1];
+            if (e.shiftKey && document.activeElement === first) {
+                last?.focus();
+            } else if (!e.shiftKey && document.activeElement === last) {
+                first?.focus();
+            } else {
+                return;
+            }
+        } else {
+            return;
+        }
+        e.preventDefault();
+    };
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        if (item.kind !== 'image') return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        const points = Array.from(pointers.current.values()) as { x: number; y: number }[];
+        if (points.length === 2) {
+            pinch.current = { distance: Math.hypot(points[0].x - points[1].x, points[0].y - points[1].y), scale };
+            swipe.current = null;
+        } else if (points.length === 1) {
+            swipe.current = { x: e.clientX, y: e.clientY };
+        }
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const previous = pointers.current.get(e.pointerId);
+        if (!previous) return;
+        pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        const points = Array.from(pointers.current.values()) as { x: number; y: number }[];
+        if (points.length === 2 && pinch.current) {
+            const distance = Math.hypot(points[0].x - points[1].x, points[0].y - points[1].y);
+            zoom(pinch.current.scale * distance / pinch.current.distance);
+        } else if (points.length === 1 && scale > 1) {
+            setOffset(current => ({ x: current.x + e.clientX - previous.x, y: current.y + e.clientY - previous.y }));
+        }
+    };
+
+    const handlePointerUp = (e: React.PointerEvent) => {
+        pointers.current.delete(e.pointerId);
+        if (pointers.current.size < 2) {
+            pinch.current = null;
+        }
+        if (swipe.current && scale === 1) {
+            const dx = e.clientX - swipe.current.x;
+            const dy = e.clientY - swipe.current.y;
+            if (Math.abs(dx) > SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy)) {
+                onNavigate(swipeStep(dx, lang));
+            }
+        }
+        swipe.current = null;
+    };
+
+    return (
+        <div className="gallery-lightbox" role="dialog" aria-modal="true" aria-label={alt} ref={dialogRef} onKeyDown={handleKeyDown}>
+            <div className="gallery-lightbox-toolbar">
+                <span className="gallery-lightbox-position">{t('galleryPosition', { index: index + 1, count: items.length })}</span>
+                {item.kind === 'image' && (
+                    <>
+                        <button type="button" onClick={() => zoom(scale / 1.5)} disabled={scale === 1} aria-label={t('galleryZoomOut')}>−</button>
+                        <button type="button" onClick={() => zoom(scale * 1.5)} disabled={scale === MAX_ZOOM} aria-label={t('galleryZoomIn')}>+</button>
+                    </>
+                )}
+                <button type="button" ref={closeRef} onClick={onClose} aria-label={t('galleryClose')}>&times;</button>
+            </div>
+            <div
+                className={`gallery-lightbox-stage ${scale > 1 ? 'zoomed' : ''}`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onWheel={(e: React.WheelEvent) => item.kind === 'image' && zoom(scale * (e.deltaY < 0 ? 1.25 : 0.8))}
+                onDoubleClick={() => item.kind === 'image' && zoom(scale > 1 ? 1 : 2.5)}
+            >
+                {item.kind === 'image' ? (
+                    <ResponsiveImage
+                        src={item.src}
+                        alt={alt}
+                        draggable={false}
+                        style={{ transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})` }}
+                    />
+                ) : (
+                    <GalleryItemView item={item} alt={alt} lang={lang} />
+                )}
+            </div>
+            {items.length > 1 && (
+                <>
+                    <button type="button" className="gallery-nav gallery-nav-prev" onClick={() => onNavigate(-1)} aria-label={t('galleryPrevious')}>‹</button>
+                    <button type="button" className="gallery-nav gallery-nav-next" onClick={() => onNavigate(1)} aria-label={t('galleryNext')}>›</button>
+                </>
+            )}
+        </div>
+    );
+};
+
+const ProductGallery: React.FC<{ product: Product; lang: Language }> = ({ product, lang }) => {
+    const { t } = useT();
+    const items = getGalleryItems(product);
+    const [index, setIndex] = useState(0);
+    const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+    const alt = localize(product.name, lang);
+    const item = items[index];
+
+    const navigate = (step: number) => setIndex(current => wrapIndex(current + step, items.length));
+    const swipeHandlers = useSwipe(distance => item.kind === 'image' && navigate(swipeStep(distance, lang)));
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        const step = arrowStep(e.key, lang);
+        // Video controls use the arrow keys to seek.
+        if (step !== 0 && items.length > 1 && !(e.target instanceof HTMLVideoElement)) {
+            e.preventDefault();
+            navigate(step);
+        }
+    };
+
+    return (
+        <div className="product-gallery" role="region" aria-label={t('galleryLabel')} onKeyDown={handleKeyDown}>
+            <div className="main-image-container" {...swipeHandlers}>
+                {item.kind === 'image' ? (
+                    <button type="button" className="gallery-open" onClick={() => setIsLightboxOpen(true)} aria-label={`${t('galleryOpen')}: ${alt}`}>
+                        <ResponsiveImage src={item.src} alt={alt} sizes={IMAGE_SIZES.half} loading="eager" draggable={false} />
+                    </button>
+                ) : (
+                    <GalleryItemView item={item} alt={alt} lang={lang} />
+                )}
+                {item.kind !== 'image' && (
+                    <button type="button" className="gallery-open gallery-open-corner" onClick={() => setIsLightboxOpen(true)} aria-label={t('galleryOpen')}>⤢</button>
+                )}
+                {items.length > 1 && (
+                    <>
+                        <button type="button" className="gallery-nav gallery-nav-prev" onClick={() => navigate(-1)} aria-label={t('galleryPrevious')}>‹</button>
+                        <button type="button" className="gallery-nav gallery-nav-next" onClick={() => navigate(1)} aria-label={t('galleryNext')}>›</button>
+                    </>
+                )}
+            </div>
+            <p className="sr-only" aria-live="polite">{items.length > 1 ? t('galleryPosition', { index: index + 1, count: items.length }) : ''}</p>
+            {items.length > 1 && (
+                <div className="thumbnail-container">
+                    {items.map((thumbnail, thumbnailIndex) => (
+                        <button
+                            key={thumbnailIndex}
+                            className={`thumbnail-button ${thumbnailIndex === index ? 'active' : ''}`}
+                            onClick={() => setIndex(thumbnailIndex)}
+                            aria-label={`${t('ariaViewImage')} ${thumbnailIndex + 1}`}
+                            aria-current={thumbnailIndex === index ? 'true' : undefined}
+                        >
+                            <GalleryThumbnail item={thumbnail} index={thumbnailIndex} />
+                        </button>
+                    ))}
+                </div>
+            )}
+            {isLightboxOpen && (
+                <GalleryLightbox items={items} index={index} onNavigate={navigate} onClose={() => setIsLightboxOpen(false)} alt={alt} lang={lang} />
+            )}
+        </div>
+    );
+};
+
+// One group of choices per option; each change is written to the page URL by onSelect.
+const ProductOptionPicker: React.FC<{
+    product: Product;
+    selection: OptionSelection;
+    onSelect: (optionId: string, valueId: string) => void;
+    lang: Language;
+}> = ({ product, selection, onSelect, lang }) => (
+    <div className="product-options">
+        {(product.options || []).map(option => (
+            <fieldset className="product-option" key={option.id}>
+                <legend><T content={option.label} lang={lang} /></legend>
+                <div className="product-option-values">
+                    {option.values.map(value => (
+                        <label key={value.id} className={`product-option-value ${selection[option.id] === value.id ? 'selected' : ''}`}>
+                            <input
+                                type="radio"
+                                name={`option-${option.id}`}
+                                value={value.id}
+                                checked={selection[option.id] === value.id}
+                                onChange={() => onSelect(option.id, value.id)}
+                            />
+                            <T content={value.label} lang={lang} />
+                        </label>
+                    ))}
+                </div>
+            </fieldset>
+        ))}
+    </div>
+);
+
+const CompareToggle: React.FC<{
+    productId: string;
+    compare: CompareSelection;
+    lang: Language;
+}> = ({ productId, compare, lang }) => {
+    const { t } = useT();
+    const isSelected = compare.ids.includes(productId);
+    const isFull = !isSelected && compare.ids.length >= MAX_COMPARE_ITEMS;
+
+    return (
+        <button
+            type="button"
+            className={`compare-toggle ${isSelected ? 'active' : ''}`}
+            aria-pressed={isSelected}
+            disabled={isFull}
+            title={isFull ? t('compareLimit', { count: MAX_COMPARE_ITEMS }) : undefined}
+            onClick={(e) => {
+                // The whole card is clickable, so keep the toggle from opening the product.
+                e.stopPropagation();
+                compare.toggle(productId);
+            }}
+        >
+            {t(isSelected ? 'compareSelected' : 'compareAdd')}
+        </button>
+    );
+};
+
+const CompareTray: React.FC<{
+    compare: CompareSelection;
+    products: Product[];
+    lang: Language;
+}> = ({ compare, products, lang }) => {
+    const { t } = useT();
+    const location = useLocation();
+    const selectedProducts = compare.ids
+        .map(id => products.find(p => p.id === id))
+        .filter((p): p is Product => Boolean(p));
+
+    if (selectedProducts.length === 0 || location.pathname.endsWith('/compare')) {
+        return null;
+    }
+
+    return (
+        <aside className="compare-tray" aria-label={t('ariaCompareTray')}>
+            <div className="container">
+                <ul className="compare-tray-items">
+                    {selectedProducts.map(product => (
+                        <li key={product.id}>
+                            <ResponsiveImage src={product.image} alt="" sizes={IMAGE_SIZES.thumbnail} loading="lazy" />
+                            <span><T content={product.name} lang={lang} /></span>
+                            <button
+                                className="compare-tray-remove"
+                                onClick={() => compare.toggle(product.id)}
+                                aria-label={`${t('compareRemove')} ${localize(product.name, lang)}`}
+                            >
+                                &times;
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+                <div className="compare-tray-actions">
+                    <button className="compare-tray-clear" onClick={compare.clear}>
+                        {t('compareClear')}
+                    </button>
+                    {selectedProducts.length > 1 ? (
+                        <Link to={localizePath(lang, `/compare?ids=${selectedProducts.map(p => p.id).join(',')}`)} className="cta-button">
+                            {t('compareNow', { count: selectedProducts.length })}
+                        </Link>
+                    ) : (
+                        <span className="compare-tray-hint">{t('compareHint')}</span>
+                    )}
+                </div>
+            </div>
+        </aside>
+    );
+};
+
+
+// --- Contact Links ---
+const WhatsAppIcon = () => (
+  <svg aria-hidden="true" focusable="false" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 448 512"><path d="M380.9 97.1C339 55.1 283.2 32 223.9 32c-122.4 0-222 99.6-222 222 0 39.1 10.2 77.3 29.6 111L0 480l117.7-30.9c32.4 17.7 68.9 27 106.1 27h.1c122.3 0 224.1-99.6 224.1-222 0-59.3-25.2-115-67.1-157zm-157 341.6c-33.2 0-65.7-8.9-94-25.7l-6.7-4-69.8 18.3L72 359.2l-4.4-7c-18.5-29.4-28.2-63.3-28.2-98.2 0-101.7 82.8-184.5 184.6-184.5 49.3 0 95.6 19.2 130.4 54.1 34.8 34.9 56.2 81.2 56.1 130.5 0 101.8-84.9 184.6-186.6 184.6zm101.2-138.2c-5.5-2.8-32.8-16.2-37.9-18-5.1-1.9-8.8-2.8-12.5 2.8-3.7 5.6-14.3 18-17.6 21.8-3.2 3.7-6.5 4.2-12 1.4-32.6-16.3-54-29.1-75.5-66-5.7-9.8 5.7-9.1 16.3-30.3 1.8-3.7.9-6.9-.5-9.7-1.4-2.8-12.5-30.1-17.1-41.2-4.5-10.8-9.1-9.3-12.5-9.5-3.2-.2-6.9-.2-10.6-.2-3.7 0-9.7 1.4-14.8 6.9-5.1 5.6-19.4 19-19.4 46.3 0 27.3 19.9 53.7 22.6 57.4 2.8 3.7 39.1 59.7 94.8 83.8 35.2 15.2 49 16.5 66.6 13.9 10.7-1.6 32.8-13.4 37.4-26.4 4.6-13 4.6-24.1 3.2-26.4-1.3-2.5-5-3.9-10.5-6.6z"/></svg>
+);
+
+// Fills {placeholders} and leaves out lines whose placeholders are all empty,
+// such as "Model: {model}" for a product without a model.
+const fillMessageTemplate = (template: string, values: Record<string, string>) =>
+  template
+    .split('\n')
+    .filter(line => {
+      const names = [...line.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+      return names.length === 0 || names.some(name => values[name]);
+    })
+    .map(line => line.replace(/\{(\w+)\}/g, (_, name: string) => values[name] || ''))
+    .join('\n');
+
+const whatsappLink = (number: string, message: string) =>
+  `https://wa.me/${number.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`;
+
+const telLink = (number: string) => `tel:${number}`;
+
+// "+966505203532" as "+966 505 203 532"; other numbers are shown as stored.
+const formatPhoneNumber = (number: string) => number.replace(/^\+966(\d{3})(\d{3})(\d{3})$/, '+966 $1 $2 $3');
+
+// Floating button that opens WhatsApp with a message about the current page, or calls.
+const ContactWidget: React.FC<{ contact: ContactSettings; lang: Language }> = ({ contact, lang }) => {
+  const { t } = useT();
+  const location = useLocation();
+  const [isOpen, setIsOpen] = useState(false);
+  const widgetRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    setIsOpen(false);
+  }, [location.pathname]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const handleClick = (event: MouseEvent) => {
+      if (!widgetRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+        buttonRef.current?.focus();
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const message = fillMessageTemplate(localize(contact.messages.general, lang), { url: `${SITE_URL}${location.pathname}${location.search}` });
+
+  return (
+    <div className={`contact-widget ${isOpen ? 'open' : ''}`} ref={widgetRef}>
+      {isOpen && (
+        <ul className="contact-widget-options">
+          <li>
+            <a href={whatsappLink(contact.whatsapp, message)} target="_blank" rel="noopener noreferrer" className="contact-widget-whatsapp">
+              <WhatsAppIcon />
+              {t('contactWhatsApp')}
+            </a>
+          </li>
+          <li>
+            <a href={telLink(contact.phone)} className="contact-widget-call">
+              <i className="icon-phone" aria-hidden="true"></i>
+              <span>{t('contactCall')} <span dir="ltr">{formatPhoneNumber(contact.phone)}</span></span>
+            </a>
+          </li>
+        </ul>
+      )}
+      <button
+        ref={buttonRef}
+        className="contact-widget-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={t(isOpen ? 'contactWidgetClose' : 'contactWidgetOpen')}
+        aria-expanded={isOpen}
+      >
+        {isOpen ? <span aria-hidden="true">&times;</span> : <WhatsAppIcon />}
+      </button>
+    </div>
+  );
+};
+
+// --- Maintenance Booking ---
+const BOOKING_STEPS = ['chair', 'issue', 'handover', 'schedule', 'contact', 'review'] as const;
+type BookingStep = typeof BOOKING_STEPS[number];
+
+const BOOKING_STEP_LABELS: Record<BookingStep, TranslationKey> = {
+  chair: 'bookingStepChair',
+  issue: 'bookingStepIssue',
+  handover: 'bookingStepHandover',
+  schedule: 'bookingStepSchedule',
+  contact: 'bookingStepContact',
+  review: 'bookingStepReview',
+};
+
+interface BookingForm {
+  make: string;
+  model: string;
+  issue: string;
+  // Downscaled JPEG data: URLs, sent inline with the request.
+  photos: string[];
+  handover: 'pickup' | 'dropoff';
+  address: string;
+  date: string;
+  slot: string;
+  name: string;
+  phone: string;
+  email: string;
+}
+
+// Where each form field is asked for, and what the booking request calls it.
+const BOOKING_STEP_FIELDS: Record<BookingStep, (keyof BookingForm)[]> = {
+  chair: ['make', 'model'],
+  issue: ['issue', 'photos'],
+  handover: ['address'],
+  schedule: ['date', 'slot'],
+  contact: ['name', 'phone', 'email'],
+  review: [],
+};
+const BOOKING_PAYLOAD_FIELDS: Record<string, keyof BookingForm> = {
+  chair: 'make',
+  issue: 'issue',
+  attachments: 'photos',
+  address: 'address',
+  date: 'date',
+  time: 'slot',
+  name: 'name',
+  phone: 'phone',
+  email: 'email',
+};
+
+const MAX_BOOKING_PHOTOS = 3;
+const BOOKING_PHOTO_SIZE = 1024; // px, longest side
+
+// The confirmation is shown in both languages whatever the page language, so it
+// can be forwarded to anyone in the household.
+const BOOKING_CONFIRMATION_LANGUAGES: Language[] = ['ar', 'en'];
+
+const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3));
+const formatMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+// Local calendar date as YYYY-MM-DD.
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const fromDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Open days from the first bookable day to the end of the booking horizon.
+const getBookingDates = (booking: BookingSettings, today = new Date()) =>
+  Array.from({ length: booking.horizonDays }, (_, index) =>
+    new Date(today.getFullYear(), today.getMonth(), today.getDate() + booking.leadDays + index)
+  ).filter(date => booking.hours.some(hours => hours.day === date.getDay()) && !booking.closedDates?.includes(toDateKey(date)));
+
+// "09:00–11:00" for every whole slot that fits in the day's opening hours.
+const getTimeSlots = (booking: BookingSettings, dateKey: string) => {
+  const day = fromDateKey(dateKey).getDay();
+  return booking.hours
+    .filter(hours => hours.day === day)
+    .flatMap(hours => {
+      const slots: string[] = [];
+      for (let start = toMinutes(hours.open); start + booking.slotMinutes <= toMinutes(hours.close); start += booking.slotMinutes) {
+        slots.push(`${formatMinutes(start)}–${formatMinutes(start + booking.slotMinutes)}`);
+      }
+      return slots;
+    });
+};
+
+// Gregorian calendar and Latin digits in every language, matching the rest of the site.
+const formatBookingDate = (dateKey: string, lang: Language) =>
+  new Intl.DateTimeFormat(`${lang}-u-ca-gregory-nu-latn`, { weekday: 'long', day: 'numeric', month: 'long' }).format(fromDateKey(dateKey));
+
+// WOE-<yymmdd>-<4 characters>, without letters that are easy to misread over the phone.
+const createBookingReference = (now = new Date()) => {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  const suffix = Array.from({ length: 4 }, () => alphabet[Math.floor(Math.random() * alphabet.length)]).join('');
+  return `WOE-${toDateKey(now).slice(2).replace(/-/g, '')}-${suffix}`;
+};
+
+const resizePhoto = async (file: File): Promise<string> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, BOOKING_PHOTO_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.75);
+};
+
+// Brands and models of the chairs we sell, to suggest while typing; any other make is accepted.
+const getChairSuggestions = (products: Product[], make: string, lang: Language) => {
+  const normalizedMake = make.trim().toLowerCase();
+  const makes = [...new Set(products.map(product => localize(product.manufacturer, lang)))].sort();
+  const models = [...new Set(products
+    .filter(product => !normalizedMake || Object.values(product.manufacturer).some(name => name?.toLowerCase() === normalizedMake))
+    .flatMap(product => product.model ? [product.model] : []))].sort();
+  return { makes, models };
+};
+
+// --- Repair Tracking ---
+// Set VITE_TICKETS_URL to the ticket system's base URL (see tickets.ts for the API), or
+// to /api/tickets for `npm run tickets` in development. Without it there is no /track page.
+const ticketSource: TicketSource | null = import.meta.env.VITE_TICKETS_URL
+    ? createHttpTicketSource(import.meta.env.VITE_TICKETS_URL)
+    : null;
+
+const TICKET_STATUS_LABELS: Record<TicketStatus, TranslationKey> = {
+  received: 'ticketStatusReceived',
+  diagnosed: 'ticketStatusDiagnosed',
+  awaitingParts: 'ticketStatusAwaitingParts',
+  ready: 'ticketStatusReady',
+  delivered: 'ticketStatusDelivered',
+};
+
+const formatTicketTime = (iso: string, lang: Language) =>
+  new Intl.DateTimeFormat(`${lang}-u-ca-gregory-nu-latn`, { day: 'numeric', month: 'long', hour: 'numeric', minute: '2-digit' }).format(new Date(iso));
+
+// --- Product Assistant ---
+// Set VITE_ASSISTANT_URL to a server that answers with Gemini and holds its API key, such
+// as /api/assistant for `npm run assistant` in development (see assistant.ts for the API).
+// The keyword stub answers when that server cannot be reached, and always without one.
+const assistantStub = createStubAssistantModel(lang => {
+  const t = createTranslate(lang);
+  return { found: t('assistantStubFound'), notFound: t('assistantStubNotFound') };
+});
+
+const assistantModel: AssistantModel = import.meta.env.VITE_ASSISTANT_URL
+  ? withFallback(createHttpAssistantModel(import.meta.env.VITE_ASSISTANT_URL), assistantStub)
+  : assistantStub;
+
+const ASSISTANT_EXAMPLES: TranslationKey[] = ['assistantExampleFolding', 'assistantExampleChildren', 'assistantExampleBathroom'];
+
+// --- Hero Carousel ---
+const CAROUSEL_INTERVAL = 5000; // ms
+
+const usePrefersReducedMotion = () => {
+    const [prefersReducedMotion, setPrefersReducedMotion] = useState(false);
+    useEffect(() => {
+        const query = window.matchMedia('(prefers-reduced-motion: reduce)');
+        const handleChange = () => setPrefersReducedMotion(query.matches);
+        handleChange();
+        query.addEventListener('change', handleChange);
+        return () => query.removeEventListener('change', handleChange);
+    }, []);
+    return prefersReducedMotion;
+};
+
+// Site paths get the current language; full URLs open in a new tab.
+const SlideCta: React.FC<{ slide: Slide; lang: Language; tabIndex?: number }> = ({ slide, lang, tabIndex }) => {
+    const { t } = useT();
+    const link = slide.ctaLink ?? '/products';
+    const text = slide.ctaText ? <T content={slide.ctaText} lang={lang} /> : t('heroButton');
+    return /^https?:\/\//.test(link) ? (
+        <a href={link} className="cta-button" target="_blank" rel="noopener noreferrer" tabIndex={tabIndex}>{text}</a>
+    ) : (
+        <Link to={localizePath(lang, link)} className="cta-button" tabIndex={tabIndex}>{text}</Link>
+    );
+};
+
+// Follows the WAI-ARIA carousel pattern: rotation pauses while the pointer is over
+// the carousel or focus is in a slide, stops for good with the pause button, and
+// doesn't start by itself for visitors who prefer reduced motion. Slide changes
+// are announced only while it isn't rotating.
+const HeroCarousel: React.FC<{ slides: Slide[]; lang: Language; interval?: number }> = ({ slides, lang, interval = CAROUSEL_INTERVAL }) => {
+    const { t } = useT();
+    const [current, setCurrent] = useState(0);
+    const [playState, setPlayState] = useState<'auto' | 'playing' | 'paused'>('auto');
+    const [isHovered, setIsHovered] = useState(false);
+    const [hasFocus, setHasFocus] = useState(false);
+    const prefersReducedMotion = usePrefersReducedMotion();
+    const isPlaying = slides.length > 1 && (playState === 'playing' || (playState === 'auto' && !prefersReducedMotion));
+    const isRotating = isPlaying && !isHovered && !hasFocus;
+
+    // A timeout rather than an interval, so choosing a slide restarts the wait.
+    useEffect(() => {
+        if (!isRotating) {
+            return;
+        }
+        const timer = setTimeout(() => setCurrent(prev => wrapIndex(prev + 1, slides.length)), interval);
+        return () => clearTimeout(timer);
+    }, [isRotating, current, slides.length, interval]);
+
+    const go = (step: number) => setCurrent(prev => wrapIndex(prev + step, slides.length));
+    const swipeHandlers = useSwipe(distance => go(swipeStep(distance, lang)));
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        const step = arrowStep(e.key, lang);
+        if (step !== 0 && slides.length > 1) {
+            e.preventDefault();
+            go(step);
+        }
+    };
+
+    return (
+        <section
+            className="hero"
+            aria-roledescription="carousel"
+            aria-label={t('heroCarouselLabel')}
+            onMouseEnter={() => setIsHovered(true)}
+            onMouseLeave={() => setIsHovered(false)}
+            onKeyDown={handleKeyDown}
+            {...swipeHandlers}
+        >
+            <div
+                className="hero-slides"
+                aria-live={isRotating ? 'off' : 'polite'}
+                onFocus={() => setHasFocus(true)}
+                onBlur={(e: React.FocusEvent) => !e.currentTarget.contains(e.relatedTarget as Node) && setHasFocus(false)}
+            >
+                {slides.map((slide, index) => (
+                    <div
+                        key={index}
+                        className={`hero-slide ${index === current ? 'active' : ''}`}
+                        role="group"
+                        aria-roledescription="slide"
+                        aria-label={t('heroSlideLabel', { index: index + 1, count: slides.length })}
+                        aria-hidden={index !== current}
+                    >
+                        <ResponsiveImage src={slide.image} alt="" className="hero-image" loading={index === 0 ? 'eager' : 'lazy'} />
+                        <div className="hero-content">
+                            <h1><T content={slide.title} lang={lang} /></h1>
+                            <p><T content={slide.subtitle} lang={lang} /></p>
+                            <SlideCta slide={slide} lang={lang} tabIndex={index === current ? undefined : -1} />
+                        </div>
+                    </div>
+                ))}
+            </div>
+            {slides.length > 1 && (
+                <>
+                    <button type="button" className="hero-nav hero-nav-prev" onClick={() => go(-1)} aria-label={t('heroPrevious')}>‹</button>
+                    <button type="button" className="hero-nav hero-nav-next" onClick={() => go(1)} aria-label={t('heroNext')}>›</button>
+                    <div className="slider-dots">
+                        <button
+                            type="button"
+                            className="hero-play-toggle"
+                            onClick={() => setPlayState(isPlaying ? 'paused' : 'playing')}
+                            aria-label={isPlaying ? t('heroPause') : t('heroPlay')}
+                        >
+                            <span aria-hidden="true">{isPlaying ? '❚❚' : '▶'}</span>
+                        </button>
+                        {slides.map((_, index) => (
+                            <button
+                                key={index}
+                                type="button"
+                                className="dot"
+                                aria-current={index === current}
+                                onClick={() => setCurrent(index)}
+                                aria-label={`${t('ariaGoToSlide')} ${index + 1}`}
+                            />
+                        ))}
+                    </div>
+                </>
+            )}
+        </section>
+    );
+};
+
+// --- Pages ---
+const HomePage: React.FC<{ 
+    data: AppData; 
+    lang: Language; 
+}> = ({ data, lang }) => {
+  const { t } = useT();
+  const navigate = useNavigate();
+  const featuredProducts = data.products.filter(p => p.isFeatured);
+
+  return (
+    <>
+      <PageMeta lang={lang} title={t('metaHomeTitle')} description={t('metaHomeDescription')} />
+      <HeroCarousel slides={data.slides} lang={lang} />
+
+      {/* About Section Preview */}
+      <section className="about-section">
+          <div className="container">
+              <h2 className="page-title">{t('homeAboutTitle')}</h2>
+              <div className="title-divider"></div>
+              <div className="home-about-content">
+                  <div className="home-about-text">
+                      <p>{t('homeAboutText')}</p>
+                      <Link to={localizePath(lang, '/about')} className="cta-button">{t('homeAboutButton')}</Link>
+                  </div>
+                  <div className="home-about-image">
+                      <ResponsiveImage src={SITE_IMAGES.about} alt={t('homeAboutImageAlt')} sizes={IMAGE_SIZES.half} loading="lazy" />
+                  </div>
+              </div>
+          </div>
+      </section>
 
       {/* Products Preview Section */}
       <section className="products-preview-section">
         <div className="container">
-          <h2 className="page-title"><T content={translations.homeProductsTitle} lang={lang} /></h2>
+          <h2 className="page-title">{t('homeProductsTitle')}</h2>
           <div className="title-divider"></div>
-          <p className="section-subtitle"><T content={translations.homeProductsSubtitle} lang={lang} /></p>
+          <p className="section-subtitle">{t('homeProductsSubtitle')}</p>
           <div className="product-grid">
             {featuredProducts.map(product => (
-              <div onClick={() => navigate(`/products/${product.id}`)} className="product-card" key={product.id}>
+              <div onClick={() => navigate(localizePath(lang, `/products/${product.id}`))} className="product-card" key={product.id}>
                 <div className="product-card-image">
-                    <img src={product.image} alt={product.name[lang]} loading="lazy" />
+                    <ResponsiveImage src={product.image} alt={localize(product.name, lang)} sizes={IMAGE_SIZES.card} loading="lazy" />
                 </div>
                 <div className="product-card-info">
                   <div className="product-card-tags">
@@ -433,26 +2157,30 @@ const HomePage: React.FC<{
                   </div>
                   <h3><T content={product.name} lang={lang} /></h3>
                   <p><T content={product.shortDescription} lang={lang} /></p>
+                  <div className="product-card-commerce">
+                      <ProductPrice product={product} />
+                      <StockBadge availability={product.availability} />
+                  </div>
                   <span className="cta-button-outline">
-                    <T content={translations.productViewDetails} lang={lang} />
+                    {t('productViewDetails')}
                   </span>
                 </div>
               </div>
             ))}
           </div>
-           <Link to="/products" className="cta-button" style={{marginTop: '30px', display: 'inline-block'}}><T content={translations.homeProductsButton} lang={lang} /></Link>
+           <Link to={localizePath(lang, '/products')} className="cta-button" style={{marginTop: '30px', display: 'inline-block'}}>{t('homeProductsButton')}</Link>
         </div>
       </section>
 
       {/* Services Section */}
       <section className="services-section">
         <div className="container">
-            <h2 className="page-title"><T content={translations.homeServicesTitle} lang={lang} /></h2>
+            <h2 className="page-title">{t('homeServicesTitle')}</h2>
             <div className="title-divider"></div>
             <div className="services-grid">
                 {data.services.map(service => (
                     <div className="service-card" key={service.id}>
-                        <img src={service.image} alt={service.title[lang]} loading="lazy"/>
+                        <ResponsiveImage src={service.image} alt={localize(service.title, lang)} sizes={IMAGE_SIZES.card} loading="lazy" />
                         <h3><T content={service.title} lang={lang}/></h3>
                         <p><T content={service.description} lang={lang}/></p>
                     </div>
@@ -464,336 +2192,1800 @@ const HomePage: React.FC<{
       {/* Partners section */}
       <section className="partners-section">
         <div className="container">
-            <h2 className="page-title"><T content={translations.homePartnersTitle} lang={lang} /></h2>
+            <h2 className="page-title">{t('homePartnersTitle')}</h2>
             <div className="title-divider"></div>
             <div className="partners-grid">
                 {data.partners.map(partner => (
                     <div className="partner-card" key={partner.name}>
-                        <img src={partner.logo} alt={partner.name} loading="lazy" />
+                        <ResponsiveImage src={partner.logo} alt={partner.name} sizes="10rem" loading="lazy" />
                     </div>
                 ))}
             </div>
         </div>
-      </section>
-    </>
-  );
+      </section>
+    </>
+  );
+};
+
+const AboutPage: React.FC<{ lang: Language }> = ({ lang }) => {
+    const { t } = useT();
+    return (
+      <div className="page-container container">
+          <PageMeta lang={lang} title={t('navAbout')} description={t('aboutText1')} />
+          <h1 className="page-title">{t('navAbout')}</h1>
+          <div className="title-divider"></div>
+          <div className="about-content">
+              <div className="about-text">
+                  <p>{t('aboutText1')}</p>
+                  <p>{t('aboutText2')}</p>
+                  <h3>{t('aboutVisionTitle')}</h3>
+                  <p>{t('aboutVisionText')}</p>
+                  <h3>{t('aboutMissionTitle')}</h3>
+                  <p>{t('aboutMissionText')}</p>
+              </div>
+              <div className="about-image">
+                  <ResponsiveImage src={SITE_IMAGES.about} alt={t('aboutImageAlt')} sizes={IMAGE_SIZES.half} loading="lazy" />
+              </div>
+          </div>
+      </div>
+    );
+};
+
+const SpecFilterPanel: React.FC<{
+    products: Product[];
+    definitions: SpecDefinition[];
+    lang: Language;
+}> = ({ products, definitions, lang }) => {
+    const { t } = useT();
+    const [searchParams, setSearchParams] = useSearchParams();
+
+    const updateFilter = (key: SpecKey | typeof PRICE_FILTER_KEYS[number], value: string) => {
+        const nextParams = new URLSearchParams(searchParams);
+        if (value) {
+            nextParams.set(key, value);
+        } else {
+            nextParams.delete(key);
+        }
+        setSearchParams(nextParams, { replace: true });
+    };
+
+    const filterKeys: string[] = [...PRICE_FILTER_KEYS, ...definitions.map(definition => definition.key)];
+
+    const clearFilters = () => {
+        const nextParams = new URLSearchParams(searchParams);
+        filterKeys.forEach(key => nextParams.delete(key));
+        setSearchParams(nextParams, { replace: true });
+    };
+
+    // Only offer facets that at least one product in the current category can match.
+    const facets = definitions.filter(definition => products.some(p => p.specs?.[definition.key] !== undefined));
+    const prices = products.map(getDisplayPrice).filter((price): price is number => price !== undefined);
+    const readyCount = products.filter(p => p.availability && READY_TO_SHIP.includes(p.availability)).length;
+    const hasStockInfo = products.some(p => p.availability);
+    const hasActiveFilters = filterKeys.some(key => searchParams.has(key));
+
+    if (facets.length === 0 && prices.length === 0 && !hasStockInfo) {
+        return null;
+    }
+
+    const priceRange = parseRange(searchParams.get('price') || '');
+    const setPriceRange = (nextMin: string, nextMax: string) =>
+        updateFilter('price', nextMin || nextMax ? `${nextMin}-${nextMax}` : '');
+
+    return (
+        <div className="spec-filters">
+            <div className="spec-filters-header">
+                <h3>{t('productFilters')}</h3>
+                {hasActiveFilters && (
+                    <button className="spec-filters-clear" onClick={clearFilters}>
+                        {t('filterClear')}
+                    </button>
+                )}
+            </div>
+            {hasStockInfo && (
+                <fieldset className="spec-facet">
+                    <label className="spec-option">
+                        <input
+                            type="checkbox"
+                            checked={searchParams.get('inStock') === '1'}
+                            onChange={(e) => updateFilter('inStock', e.target.checked ? '1' : '')}
+                        />
+                        {t('filterInStock')}
+                        <span className="spec-option-count">{readyCount}</span>
+                    </label>
+                </fieldset>
+            )}
+            {prices.length > 0 && (
+                <fieldset className="spec-facet">
+                    <legend>{t('filterPrice')}</legend>
+                    <div className="spec-range">
+                        <input
+                            type="number"
+                            inputMode="decimal"
+                            step="any"
+                            min={0}
+                            placeholder={String(Math.floor(Math.min(...prices)))}
+                            value={priceRange.min}
+                            onChange={(e) => setPriceRange(e.target.value, priceRange.max)}
+                            aria-label={`${t('filterPrice')} ${t('filterMin')}`}
+                        />
+                        <span aria-hidden="true">–</span>
+                        <input
+                            type="number"
+                            inputMode="decimal"
+                            step="any"
+                            min={0}
+                            placeholder={String(Math.ceil(Math.max(...prices)))}
+                            value={priceRange.max}
+                            onChange={(e) => setPriceRange(priceRange.min, e.target.value)}
+                            aria-label={`${t('filterPrice')} ${t('filterMax')}`}
+                        />
+                    </div>
+                </fieldset>
+            )}
+            {facets.map(definition => {
+                const filter = searchParams.get(definition.key) || '';
+                const label = localize(definition.label, lang);
+
+                if (definition.type === 'number') {
+                    const values = products.flatMap(p => getSpecNumbers(p.specs, definition.key));
+                    const { min, max } = parseRange(filter);
+                    const setRange = (nextMin: string, nextMax: string) =>
+                        updateFilter(definition.key, nextMin || nextMax ? `${nextMin}-${nextMax}` : '');
+                    return (
+                        <fieldset className="spec-facet" key={definition.key}>
+                            <legend>{label}{definition.unit && ` (${localize(definition.unit, lang)})`}</legend>
+                            <div className="spec-range">
+                                <input
+                                    type="number"
+                                    inputMode="decimal"
+                                    step="any"
+                                    min={0}
+                                    placeholder={String(Math.min(...values))}
+                                    value={min}
+                                    onChange={(e) => setRange(e.target.value, max)}
+                                    aria-label={`${label} ${t('filterMin')}`}
+                                />
+                                <span aria-hidden="true">–</span>
+                                <input
+                                    type="number"
+                                    inputMode="decimal"
+                                    step="any"
+                                    min={0}
+                                    placeholder={String(Math.max(...values))}
+                                    value={max}
+                                    onChange={(e) => setRange(min, e.target.value)}
+                                    aria-label={`${label} ${t('filterMax')}`}
+                                />
+                            </div>
+                        </fieldset>
+                    );
+                }
+
+                if (definition.type === 'enum') {
+                    const selected = filter ? filter.split(',') : [];
+                    const toggleOption = (value: string) => {
+                        const next = selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value];
+                        updateFilter(definition.key, next.join(','));
+                    };
+                    return (
+                        <fieldset className="spec-facet" key={definition.key}>
+                            <legend>{label}</legend>
+                            {(definition.options || []).map(option => {
+                                const count = products.filter(p => p.specs?.[definition.key] === option.value).length;
+                                if (count === 0) return null;
+                                return (
+                                    <label className="spec-option" key={option.value}>
+                                        <input
+                                            type="checkbox"
+                                            checked={selected.includes(option.value)}
+                                            onChange={() => toggleOption(option.value)}
+                                        />
+                                        <T content={option.label} lang={lang}/>
+                                        <span className="spec-option-count">{count}</span>
+                                    </label>
+                                );
+                            })}
+                        </fieldset>
+                    );
+                }
+
+                const count = products.filter(p => p.specs?.[definition.key] === true).length;
+                return (
+                    <fieldset className="spec-facet" key={definition.key}>
+                        <label className="spec-option">
+                            <input
+                                type="checkbox"
+                                checked={filter === '1'}
+                                onChange={(e) => updateFilter(definition.key, e.target.checked ? '1' : '')}
+                            />
+                            {label}
+                            <span className="spec-option-count">{count}</span>
+                        </label>
+                    </fieldset>
+                );
+            })}
+        </div>
+    );
+};
+
+// One entry of the products sidebar. A branch starts open while it contains the
+// active category; its toggle overrides that.
+const CategoryNavItem: React.FC<{
+    category: Category;
+    tree: CategoryTree;
+    activeCategory: string;
+    onSelect: (id: string) => void;
+    lang: Language;
+    depth?: number;
+}> = ({ category, tree, activeCategory, onSelect, lang, depth = 0 }) => {
+    const { t } = useT();
+    const [isToggled, setIsToggled] = useState<boolean | null>(null);
+    const children = tree.children(category.id);
+    const isOpen = isToggled ?? tree.path(activeCategory).some(ancestor => ancestor.id === category.id);
+    const name = localize(category.name, lang);
+
+    return (
+        <li>
+            <div className="category-item">
+                <button
+                    className={`${depth === 0 ? 'category-link' : 'subcategory-link'} ${activeCategory === category.id ? 'active' : ''}`}
+                    onClick={() => onSelect(category.id)}
+                >
+                    {category.icon && <span className="category-icon" aria-hidden="true">{category.icon}</span>}
+                    {name}
+                </button>
+                {children.length > 0 && (
+                    <button
+                        className="subcategory-toggle"
+                        onClick={() => setIsToggled(!isOpen)}
+                        aria-expanded={isOpen}
+                        aria-label={t('ariaSubcategories', { name })}
+                    >
+                        {isOpen ? '−' : '+'}
+                    </button>
+                )}
+            </div>
+            {children.length > 0 && isOpen && (
+                <ul className="subcategory-list">
+                    {children.map(child => (
+                        <CategoryNavItem
+                            key={child.id}
+                            category={child}
+                            tree={tree}
+                            activeCategory={activeCategory}
+                            onSelect={onSelect}
+                            lang={lang}
+                            depth={depth + 1}
+                        />
+                    ))}
+                </ul>
+            )}
+        </li>
+    );
+};
+
+const ProductsPage: React.FC<{ 
+    products: Product[]; 
+    specDefinitions: SpecDefinition[];
+    searchIndex: SearchIndex;
+    categoryTree: CategoryTree;
+    compare: CompareSelection;
+    lang: Language; 
+}> = ({ products, specDefinitions, searchIndex, categoryTree, compare, lang }) => {
+    const { t } = useT();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const activeCategory = searchParams.get('category') || 'all';
+    
+    const [searchTerm, setSearchTerm] = useState('');
+    const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+    const [sortOrder, setSortOrder] = useState('default');
+    const debouncedSearchTerm = useDebounce(searchTerm, 300);
+    const navigate = useNavigate();
+    const hasSearchTerm = debouncedSearchTerm.trim() !== '';
+
+    // Rank by relevance while searching unless the user picked another order.
+    useEffect(() => {
+        if (hasSearchTerm && sortOrder === 'default') {
+            setSortOrder('relevance');
+        } else if (!hasSearchTerm && sortOrder === 'relevance') {
+            setSortOrder('default');
+        }
+    }, [hasSearchTerm]);
+
+    const searchScores = useMemo(
+        () => hasSearchTerm ? searchIndex.search(debouncedSearchTerm) : null,
+        [searchIndex, debouncedSearchTerm, hasSearchTerm]
+    );
+
+    const setActiveCategory = (category: string) => {
+        const nextParams = new URLSearchParams(searchParams);
+        if (category === 'all') {
+            nextParams.delete('category');
+        } else {
+            nextParams.set('category', category);
+        }
+        setSearchParams(nextParams);
+    };
+
+    const categoryProducts = activeCategory === 'all'
+        ? products
+        : products.filter(product => categoryTree.contains(activeCategory, product));
+
+    let filteredProducts = categoryProducts.filter(product => {
+        const matchesSearch = !searchScores || searchScores.has(product.id);
+
+        return matchesSearch && matchesSpecFilters(product, specDefinitions, searchParams) && matchesPriceFilters(product, searchParams);
+    });
+
+    // Sorting by price only means something once some products in the listing have one.
+    const hasPrices = categoryProducts.some(product => getDisplayPrice(product) !== undefined);
+
+    const sortedProducts = [...filteredProducts].sort((a, b) => {
+        if (sortOrder === 'name-asc') {
+            return localize(a.name, lang).localeCompare(localize(b.name, lang));
+        }
+        if (sortOrder === 'name-desc') {
+            return localize(b.name, lang).localeCompare(localize(a.name, lang));
+        }
+        if (sortOrder === 'price-asc' || sortOrder === 'price-desc') {
+            // Products without a shown price go last either way.
+            const priceA = getDisplayPrice(a) ?? Infinity;
+            const priceB = getDisplayPrice(b) ?? Infinity;
+            if (priceA === Infinity || priceB === Infinity) {
+                return priceA === priceB ? 0 : priceA === Infinity ? 1 : -1;
+            }
+            return sortOrder === 'price-asc' ? priceA - priceB : priceB - priceA;
+        }
+        if (sortOrder === 'relevance' && searchScores) {
+            return (searchScores.get(b.id) || 0) - (searchScores.get(a.id) || 0);
+        }
+        return 0; // default
+    });
+    
+    const currentCategory = categoryTree.get(activeCategory);
+    const currentCategoryName = currentCategory ? localize(currentCategory.name, lang) : undefined;
+    // A filtered listing shows what the category's landing page shows, so that page is canonical.
+    const canonicalPath = currentCategory ? `/products/category/${currentCategory.id}` : '/products';
+
+    return (
+      <div className="page-container container">
+        <PageMeta
+            lang={lang}
+            title={currentCategoryName && activeCategory !== 'all' ? currentCategoryName : t('navProducts')}
+            description={t('homeProductsSubtitle')}
+            path={canonicalPath}
+        />
+        <h1 className="page-title">{t('navProducts')}</h1>
+        <div className="title-divider"></div>
+        <p className="assistant-prompt"><Link to={localizePath(lang, '/assistant')}>{t('assistantPrompt')}</Link></p>
+        <div className="products-page-layout">
+          <aside className="products-sidebar">
+            <h3>{t('productCategories')}</h3>
+            <ul className="category-list">
+              <li>
+                <button
+                    className={`category-link ${activeCategory === 'all' ? 'active' : ''}`}
+                    onClick={() => setActiveCategory('all')}
+                >
+                    {t('categoryAll')}
+                </button>
+              </li>
+              {categoryTree.roots.map(category => (
+                <CategoryNavItem
+                    key={category.id}
+                    category={category}
+                    tree={categoryTree}
+                    activeCategory={activeCategory}
+                    onSelect={setActiveCategory}
+                    lang={lang}
+                />
+              ))}
+            </ul>
+            <SpecFilterPanel products={categoryProducts} definitions={specDefinitions} lang={lang} />
+          </aside>
+          <div className="products-main-content">
+            <div className="product-controls">
+                <div className="product-search-bar">
+                    <input
+                        type="search"
+                        placeholder={t('productSearchPlaceholder')}
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        aria-label={t('productSearchPlaceholder')}
+                    />
+                    <i className="search-icon" aria-hidden="true"></i>
+                </div>
+                <div className="product-view-controls">
+                    <div className="view-mode-toggle">
+                        <button className={viewMode === 'grid' ? 'active' : ''} onClick={() => setViewMode('grid')} aria-label={t('ariaGridView')}>
+                            <i className="icon-grid"></i>
+                        </button>
+                        <button className={viewMode === 'list' ? 'active' : ''} onClick={() => setViewMode('list')} aria-label={t('ariaListView')}>
+                            <i className="icon-list"></i>
+                        </button>
+                    </div>
+
+                    {/* Mobile Category Select */}
+                    <div className="select-wrapper mobile-only">
+                         <label htmlFor="mobile-category-select" className="sr-only">{t('productCategories')}</label>
+                         <select id="mobile-category-select" value={activeCategory} onChange={(e) => setActiveCategory(e.target.value)}>
+                            <option value="all">{t('categoryAll')}</option>
+                            {categoryTree.flatten().map(({ category, depth }) => (
+                                <option key={category.id} value={category.id}>
+                                    {'\u00a0\u00a0\u00a0'.repeat(depth)}{localize(category.name, lang)}
+                                </option>
+                            ))}
+                         </select>
+                    </div>
+                    
+                    {/* Desktop Sort Select */}
+                    <div className="select-wrapper desktop-only">
+                         <label htmlFor="sort-select" className="sr-only">{t('ariaSortBy')}</label>
+                         <select id="sort-select" value={sortOrder} onChange={(e) => setSortOrder(e.target.value)}>
+                             <option value="default">{t('sortDefault')}</option>
+                             <option value="relevance" disabled={!hasSearchTerm}>{t('sortRelevance')}</option>
+                             <option value="name-asc">{t('sortNameAsc')}</option>
+                             <option value="name-desc">{t('sortNameDesc')}</option>
+                             {hasPrices && (
+                                 <>
+                                     <option value="price-asc">{t('sortPriceAsc')}</option>
+                                     <option value="price-desc">{t('sortPriceDesc')}</option>
+                                 </>
+                             )}
+                         </select>
+                    </div>
+                </div>
+            </div>
+            
+            <div className="product-list-header">
+                <h2>{currentCategoryName || t('categoryAll')}</h2>
+                <span>({t('productCount', { count: sortedProducts.length })})</span>
+            </div>
+
+            {sortedProducts.length > 0 ? (
+                <div className={`product-${viewMode}`}>
+                    {sortedProducts.map(product => (
+                      <div onClick={() => navigate(localizePath(lang, `/products/${product.id}`))} className="product-card" key={product.id}>
+                          <div className="product-card-image">
+                              <ResponsiveImage src={product.image} alt={localize(product.name, lang)} sizes={IMAGE_SIZES.card} loading="lazy" />
+                          </div>
+                          <div className="product-card-info">
+                              <div className="product-card-tags">
+                                  <span className="manufacturer"><T content={product.manufacturer} lang={lang} /></span>
+                                  <span className="category"><T content={product.category} lang={lang} /></span>
+                              </div>
+                              <h3><T content={product.name} lang={lang} /></h3>
+                              <p><T content={product.shortDescription} lang={lang} /></p>
+                              <div className="product-card-commerce">
+                                  <ProductPrice product={product} />
+                                  <StockBadge availability={product.availability} />
+                              </div>
+                              <div className="product-card-actions">
+                                <span className="cta-button-outline">
+                                  {t('productViewDetails')}
+                                </span>
+                                <CompareToggle productId={product.id} compare={compare} lang={lang} />
+                              </div>
+                          </div>
+                      </div>
+                    ))}
+                </div>
+            ) : (
+                <div className="no-results-container">
+                    <span role="img" aria-label={t('ariaSadFace')}>😔</span>
+                    <p className="no-results-message">{t('productNoResults')}</p>
+                </div>
+            )}
+          </div>
+        </div>
+        </div>
+    );
+};
+
+const CATEGORY_FEATURED_COUNT = 4;
+
+// Landing page for one category: hero and intro from data.json, its child
+// categories with product counts, and a few featured products.
+const CategoryPage: React.FC<{
+    products: Product[];
+    categoryTree: CategoryTree;
+    lang: Language;
+}> = ({ products, categoryTree, lang }) => {
+    const { t } = useT();
+    const { slug } = useParams();
+    const navigate = useNavigate();
+    const category = slug ? categoryTree.get(slug) : undefined;
+
+    if (!category) {
+        return <Navigate to={localizePath(lang, '/products')} replace />;
+    }
+
+    const name = localize(category.name, lang);
+    const intro = category.intro ? localize(category.intro, lang) : undefined;
+    const children = categoryTree.children(category.id);
+    const categoryProducts = products.filter(product => categoryTree.contains(category.id, product));
+    const chosenProducts = (category.featuredProducts || [])
+        .map(id => categoryProducts.find(product => product.id === id))
+        .filter((product): product is Product => !!product);
+    const markedProducts = categoryProducts.filter(product => product.isFeatured);
+    const featuredProducts = (chosenProducts.length > 0 ? chosenProducts : markedProducts.length > 0 ? markedProducts : categoryProducts)
+        .slice(0, CATEGORY_FEATURED_COUNT);
+
+    return (
+        <div className="category-page">
+            <PageMeta
+                lang={lang}
+                title={name}
+                description={intro || t('homeProductsSubtitle')}
+                image={category.heroImage}
+            />
+            <section
+                className={`category-hero ${category.heroImage ? 'has-image' : ''}`}
+                style={category.heroImage ? { backgroundImage: `url(${imageUrl(category.heroImage)})` } : undefined}
+            >
+                <div className="container category-hero-content">
+                    <nav className="breadcrumbs" aria-label={t('ariaBreadcrumbs')}>
+                        <Link to={localizePath(lang, '/products')}>{t('navProducts')}</Link>
+                        {categoryTree.path(category.id).slice(0, -1).map(ancestor => (
+                            <React.Fragment key={ancestor.id}>
+                                {' / '}
+                                <Link to={localizePath(lang, `/products/category/${ancestor.id}`)}><T content={ancestor.name} lang={lang} /></Link>
+                            </React.Fragment>
+                        ))}
+                        {' / '}<span aria-current="page">{name}</span>
+                    </nav>
+                    <h1>
+                        {category.icon && <span className="category-icon" aria-hidden="true">{category.icon}</span>}
+                        {name}
+                    </h1>
+                    {intro && <p>{intro}</p>}
+                    {categoryProducts.length > 0 && (
+                        <Link to={localizePath(lang, `/products?category=${category.id}`)} className="cta-button">
+                            {t('categoryViewAll', { count: categoryProducts.length })}
+                        </Link>
+                    )}
+                </div>
+            </section>
+
+            <div className="container">
+                {children.length > 0 && (
+                    <section className="category-section">
+                        <h2 className="page-title">{t('categoryBrowse')}</h2>
+                        <div className="title-divider"></div>
+                        <ul className="category-children">
+                            {children.map(child => {
+                                const count = categoryProducts.filter(product => categoryTree.contains(child.id, product)).length;
+                                return (
+                                    <li key={child.id}>
+                                        <Link to={localizePath(lang, `/products/category/${child.id}`)} className="category-child-card">
+                                            <span className="category-child-name"><T content={child.name} lang={lang} /></span>
+                                            <span className="category-child-count">{t('productCount', { count })}</span>
+                                        </Link>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </section>
+                )}
+
+                {featuredProducts.length > 0 ? (
+                    <section className="category-section">
+                        <h2 className="page-title">{t('homeProductsTitle')}</h2>
+                        <div className="title-divider"></div>
+                        <div className="product-grid">
+                            {featuredProducts.map(product => (
+                                <div onClick={() => navigate(localizePath(lang, `/products/${product.id}`))} className="product-card" key={product.id}>
+                                    <div className="product-card-image">
+                                        <ResponsiveImage src={product.image} alt={localize(product.name, lang)} sizes={IMAGE_SIZES.card} loading="lazy" />
+                                    </div>
+                                    <div className="product-card-info">
+                                        <div className="product-card-tags">
+                                            <span className="manufacturer"><T content={product.manufacturer} lang={lang} /></span>
+                                            <span className="category"><T content={product.category} lang={lang} /></span>
+                                        </div>
+                                        <h3><T content={product.name} lang={lang} /></h3>
+                                        <p><T content={product.shortDescription} lang={lang} /></p>
+                                        <div className="product-card-commerce">
+                                            <ProductPrice product={product} />
+                                            <StockBadge availability={product.availability} />
+                                        </div>
+                                        <span className="cta-button-outline">
+                                            {t('productViewDetails')}
+                                        </span>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </section>
+                ) : (
+                    <section className="category-section category-empty">
+                        <p className="section-subtitle">{t('categoryEmpty')}</p>
+                        <Link to={localizePath(lang, '/contact')} className="cta-button">{t('navContact')}</Link>
+                    </section>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const ProductDetailPage: React.FC<{ 
+    lang: Language; 
+    contact: ContactSettings;
+    allProducts: Product[];
+    specDefinitions: SpecDefinition[];
+    categoryTree: CategoryTree;
+    compare: CompareSelection;
+    quote: QuoteBasket;
+}> = ({ lang, contact, allProducts, specDefinitions, categoryTree, compare, quote }) => {
+    const { t } = useT();
+    const { id } = useParams();
+    const navigate = useNavigate();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const product = allProducts.find(p => p.id === id);
+    const [quoteQuantity, setQuoteQuantity] = useState(1);
+    const [quoteNote, setQuoteNote] = useState('');
+
+    useEffect(() => {
+        setQuoteQuantity(1);
+        setQuoteNote('');
+    }, [product]);
+
+    if (!product) {
+        return (
+            <div className="page-container container" style={{textAlign: 'center', padding: '5rem 0'}}>
+                 <h2>{t('productNotFound')}</h2>
+                 <Link to={localizePath(lang, '/products')} className="cta-button">{t('productBackToList')}</Link>
+            </div>
+        );
+    }
+
+    // Chosen options live in the URL, so a configuration can be shared or bookmarked.
+    const selection = getOptionSelection(product, searchParams);
+    const configured = applyOptionSelection(product, selection);
+    const quoteOptions = product.options ? selection : undefined;
+    const quoteItem = quote.items.find(item => quoteItemKey(item) === quoteItemKey({ productId: product.id, options: quoteOptions }));
+    const whatsappMessage = fillMessageTemplate(localize(contact.messages.product, lang), {
+        name: localize(product.name, lang),
+        model: configured.model || '',
+        url: `${SITE_URL}${localizePath(lang, productOptionsPath(product, selection))}`,
+    });
+
+    const selectOption = (optionId: string, valueId: string) => {
+        const nextParams = new URLSearchParams(searchParams);
+        nextParams.set(optionId, valueId);
+        setSearchParams(nextParams, { replace: true });
+    };
+
+    const handleAddToQuote = (e: React.FormEvent) => {
+        e.preventDefault();
+        quote.add(product.id, quoteQuantity, quoteNote.trim(), quoteOptions);
+    };
+    const productCategory = product.subCategory || product.mainCategory;
+    const relatedProducts = allProducts
+        .filter(p => p.id !== product.id && !!productCategory && categoryTree.contains(productCategory, p))
+        .slice(0, 4);
+
+    return (
+        <div className="page-container container product-detail-page">
+            <PageMeta
+                lang={lang}
+                title={product.model ? `${localize(product.name, lang)} (${product.model})` : localize(product.name, lang)}
+                description={localize(product.shortDescription, lang)}
+                image={configured.image}
+                type="product"
+                jsonLd={[productJsonLd(configured, lang)]}
+            />
+            <nav className="breadcrumbs" aria-label={t('ariaBreadcrumbs')}>
+                <Link to={localizePath(lang, '/products')}>{t('navProducts')}</Link>
+                {categoryTree.path(productCategory || '').map(category => (
+                    <React.Fragment key={category.id}>
+                        {' / '}
+                        <Link to={localizePath(lang, `/products/category/${category.id}`)}><T content={category.name} lang={lang} /></Link>
+                    </React.Fragment>
+                ))}
+                {' / '}<span aria-current="page"><T content={product.name} lang={lang}/></span>
+            </nav>
+            <div className="product-detail-layout">
+                {/* Options that swap the images start the gallery again from the first one. */}
+                <ProductGallery key={[configured.image, ...(configured.otherImages || [])].join('|')} product={configured} lang={lang} />
+                <div className="product-info">
+                    <h1><T content={product.name} lang={lang}/></h1>
+                    <div className="product-meta">
+                        <span><strong>{t('productManufacturer')}:</strong> <T content={product.manufacturer} lang={lang}/></span>
+                        <span><strong>{t('productCategory')}:</strong> <T content={product.category} lang={lang}/></span>
+                        {configured.model && <span><strong>{t('productModel')}:</strong> {configured.model}</span>}
+                        {product.warrantyMonths !== undefined && <span><strong>{t('productWarranty')}:</strong> {t('warrantyMonths', { count: product.warrantyMonths })}</span>}
+                    </div>
+                    {product.options && <ProductOptionPicker product={product} selection={selection} onSelect={selectOption} lang={lang} />}
+                    {(getDisplayPrice(configured) !== undefined || configured.priceOnRequest || configured.availability) && (
+                        <div className="product-purchase">
+                            <ProductPrice product={configured} />
+                            <StockBadge availability={configured.availability} />
+                            {configured.leadTimeDays !== undefined && configured.availability !== 'inStock' && (
+                                <p className="product-lead-time">{t('availabilityLeadTime', { count: configured.leadTimeDays })}</p>
+                            )}
+                        </div>
+                    )}
+                    <p className="product-description-detail"><T content={product.shortDescription} lang={lang}/></p>
+                    
+                    <h3>{t('productFeatures')}</h3>
+                    <ul className="features-list">
+                        {product.features.map((feature, index) => (
+                            <li key={index}><i className="icon-tick"></i><T content={feature} lang={lang}/></li>
+                        ))}
+                    </ul>
+                    {configured.specs && (
+                        <>
+                            <h3>{t('productSpecs')}</h3>
+                            <table className="specs-table">
+                                <tbody>
+                                    {specDefinitions.filter(definition => configured.specs[definition.key] !== undefined).map(definition => (
+                                        <tr key={definition.key}>
+                                            <th scope="row"><T content={definition.label} lang={lang}/></th>
+                                            <td>{formatSpecValue(definition, configured.specs, lang, t)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </>
+                    )}
+                    <p className="product-origin"><strong>{t('productOrigin')}:</strong> <T content={product.countryOfOrigin} lang={lang} /></p>
+                    <form className="quote-add-form" onSubmit={handleAddToQuote}>
+                        <div className="form-group">
+                            <label htmlFor="quote-quantity">{t('quoteQuantity')}</label>
+                            <input
+                                type="number"
+                                id="quote-quantity"
+                                min={1}
+                                value={quoteQuantity}
+                                onChange={(e) => setQuoteQuantity(Math.max(1, Number(e.target.value) || 1))}
+                            />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="quote-note">{t('quoteNote')}</label>
+                            <textarea
+                                id="quote-note"
+                                rows={2}
+                                value={quoteNote}
+                                placeholder={t('quoteNotePlaceholder')}
+                                onChange={(e) => setQuoteNote(e.target.value)}
+                            ></textarea>
+                        </div>
+                        <button type="submit" className="cta-button contact-cta">
+                            {t(quoteItem ? 'quoteUpdate' : 'quoteAdd')}
+                        </button>
+                        {quoteItem && (
+                            <p className="quote-added" role="status">
+                                {t('quoteInBasket', { count: quoteItem.quantity })}{' '}
+                                <Link to={localizePath(lang, '/quote')}>{t('quoteReview')}</Link>
+                            </p>
+                        )}
+                    </form>
+                    <div className="product-contact-actions">
+                        <a href={whatsappLink(contact.whatsapp, whatsappMessage)} target="_blank" rel="noopener noreferrer" className="cta-button contact-cta whatsapp-cta">
+                            <WhatsAppIcon />
+                            {t('contactWhatsApp')}
+                        </a>
+                        <a href={telLink(contact.phone)} className="cta-button-outline contact-cta">
+                            <i className="icon-phone-cta" aria-hidden="true"></i>
+                            {t('contactCall')}
+                        </a>
+                    </div>
+                    <a href={`mailto:${contact.email}`} className="cta-button-outline contact-cta">
+                        <i className="icon-email-cta"></i>
+                        {t('productContact')}
+                    </a>
+                    <CompareToggle productId={product.id} compare={compare} lang={lang} />
+                </div>
+            </div>
+            {relatedProducts.length > 0 && (
+                <div className="related-products-section">
+                    <h2>{t('relatedProducts')}</h2>
+                    <div className="product-grid">
+                        {relatedProducts.map(p => (
+                            <div onClick={() => navigate(localizePath(lang, `/products/${p.id}`))} className="product-card" key={p.id}>
+                                <div className="product-card-image">
+                                    <ResponsiveImage src={p.image} alt={localize(p.name, lang)} sizes={IMAGE_SIZES.card} loading="lazy" />
+                                </div>
+                                <div className="product-card-info">
+                                    <h3><T content={p.name} lang={lang} /></h3>
+                                    <p><T content={p.shortDescription} lang={lang} /></p>
+                                    <div className="product-card-commerce">
+                                        <ProductPrice product={p} />
+                                        <StockBadge availability={p.availability} />
+                                    </div>
+                                    <div className="product-card-actions">
+                                        <span className="cta-button-outline">{t('productViewDetails')}</span>
+                                        <CompareToggle productId={p.id} compare={compare} lang={lang} />
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+
+// The text in the page's language and, under it, in otherLang when it reads differently there.
+const CompareText: React.FC<{ text: (language: Language) => string; lang: Language; otherLang: Language }> = ({ text, lang, otherLang }) => {
+    const primary = text(lang);
+    const secondary = text(otherLang);
+    return (
+        <>
+            {primary}
+            {secondary !== primary && <span className="compare-translation" lang={otherLang} dir={LOCALES[otherLang].dir}>{secondary}</span>}
+        </>
+    );
+};
+
+const ComparePage: React.FC<{
+    lang: Language;
+    allProducts: Product[];
+    specDefinitions: SpecDefinition[];
+}> = ({ lang, allProducts, specDefinitions }) => {
+    const { t } = useT();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const ids = (searchParams.get('ids') || '').split(',').filter(Boolean);
+    const products = ids
+        .map(id => allProducts.find(p => p.id === id))
+        .filter((p): p is Product => Boolean(p));
+
+    const removeProduct = (id: string) => {
+        const remaining = products.filter(p => p.id !== id).map(p => p.id);
+        setSearchParams(remaining.length > 0 ? { ids: remaining.join(',') } : {});
+    };
+
+    if (products.length < 2) {
+        return (
+            <div className="page-container container" style={{textAlign: 'center'}}>
+                <PageMeta lang={lang} title={t('compareTitle')} description={t('compareEmpty')} noIndex />
+                <h1 className="page-title">{t('compareTitle')}</h1>
+                <div className="title-divider"></div>
+                <p className="section-subtitle">{t('compareEmpty')}</p>
+                <Link to={localizePath(lang, '/products')} className="cta-button">{t('homeProductsButton')}</Link>
+            </div>
+        );
+    }
+
+    // The table is bilingual for sales staff: Arabic pages add English and every other page adds Arabic.
+    const otherLang: Language = lang === 'en' ? 'ar' : 'en';
+    const translators = { [lang]: t, [otherLang]: createTranslate(otherLang) } as Record<Language, Translate>;
+
+    const rows: { key: string; label: (language: Language) => string; value: (p: Product, language: Language) => string }[] = [
+        { key: 'manufacturer', label: language => translators[language]('productManufacturer'), value: (p, language) => localize(p.manufacturer, language) },
+        { key: 'category', label: language => translators[language]('productCategory'), value: (p, language) => localize(p.category, language) },
+        { key: 'origin', label: language => translators[language]('productOrigin'), value: (p, language) => localize(p.countryOfOrigin, language) },
+        { key: 'model', label: language => translators[language]('productModel'), value: p => p.model || '—' },
+        ...specDefinitions
+            .filter(definition => products.some(p => p.specs?.[definition.key] !== undefined))
+            .map(definition => ({
+                key: definition.key,
+                label: (language: Language) => localize(definition.label, language),
+                value: (p: Product, language: Language) =>
+                    p.specs?.[definition.key] !== undefined ? formatSpecValue(definition, p.specs, language, translators[language]) : '—',
+            })),
+    ];
+
+    // Features are matched on their English text so translation differences don't count as product differences.
+    const isSharedFeature = (feature: LocalizedString) =>
+        products.every(p => p.features.some(f => f.en.trim().toLowerCase() === feature.en.trim().toLowerCase()));
+    const featuresDiffer = products.some(p => p.features.some(feature => !isSharedFeature(feature)));
+
+    return (
+        <div className="page-container container compare-page">
+            <PageMeta lang={lang} title={t('compareTitle')} description={t('compareSubtitle')} noIndex />
+            <h1 className="page-title">{t('compareTitle')}</h1>
+            <div className="title-divider"></div>
+            <p className="section-subtitle">{t('compareSubtitle')}</p>
+            <div className="compare-table-wrapper">
+                <table className="compare-table">
+                    <thead>
+                        <tr>
+                            <td></td>
+                            {products.map(product => (
+                                <th scope="col" key={product.id}>
+                                    <Link to={localizePath(lang, `/products/${product.id}`)} className="compare-product">
+                                        <ResponsiveImage src={product.image} alt="" sizes={IMAGE_SIZES.thumbnail} loading="lazy" />
+                                        <span><CompareText text={language => localize(product.name, language)} lang={lang} otherLang={otherLang} /></span>
+                                    </Link>
+                                    <button
+                                        className="compare-remove"
+                                        onClick={() => removeProduct(product.id)}
+                                        aria-label={`${t('compareRemove')} ${localize(product.name, lang)}`}
+                                    >
+                                        {t('compareRemove')}
+                                    </button>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(row => {
+                            const isDifferent = new Set(products.map(p => row.value(p, lang))).size > 1;
+                            return (
+                                <tr key={row.key} className={isDifferent ? 'is-different' : ''}>
+                                    <th scope="row"><CompareText text={row.label} lang={lang} otherLang={otherLang} /></th>
+                                    {products.map(product => (
+                                        <td key={product.id}>
+                                            <CompareText text={language => row.value(product, language)} lang={lang} otherLang={otherLang} />
+                                        </td>
+                                    ))}
+                                </tr>
+                            );
+                        })}
+                        <tr className={featuresDiffer ? 'is-different' : ''}>
+                            <th scope="row"><CompareText text={language => translators[language]('productFeatures')} lang={lang} otherLang={otherLang} /></th>
+                            {products.map(product => (
+                                <td key={product.id}>
+                                    <ul className="compare-features">
+                                        {product.features.map((feature, index) => (
+                                            <li key={index} className={isSharedFeature(feature) ? '' : 'is-unique'}>
+                                                <CompareText text={language => localize(feature, language)} lang={lang} otherLang={otherLang} />
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </td>
+                            ))}
+                        </tr>
+                    </tbody>
+                </table>
+            </div>
+            <p className="compare-legend"><span className="compare-legend-swatch" aria-hidden="true"></span>{t('compareLegend')}</p>
+        </div>
+    );
+};
+
+// Backend field names the quote form shows errors for.
+const QUOTE_FIELDS = { name: 'name', email: 'email' } as const;
+
+const QuotePage: React.FC<{
+    lang: Language;
+    allProducts: Product[];
+    quote: QuoteBasket;
+}> = ({ lang, allProducts, quote }) => {
+    const { t } = useT();
+    const [formData, setFormData] = useState({ name: '', email: '', message: '' });
+    const [errors, setErrors] = useState({ name: '', email: '' });
+    const [isSubmitted, setIsSubmitted] = useState(false);
+    const [isQueued, setIsQueued] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [submitError, setSubmitError] = useState<string | null>(null);
+    const spam = useSpamCheck();
+
+    // Items whose product has since been removed from the catalog are dropped silently.
+    const lines = quote.items
+        .map(item => ({ item, product: allProducts.find(p => p.id === item.productId) }))
+        .filter((line): line is { item: QuoteItem; product: Product } => Boolean(line.product));
+
+    const validate = () => {
+        const newErrors = { name: '', email: '' };
+        let isValid = true;
+        if (!formData.name) {
+            newErrors.name = t('formErrorName');
+            isValid = false;
+        }
+        if (!formData.email) {
+            newErrors.email = t('formErrorEmail');
+            isValid = false;
+        } else if (!isValidEmail(formData.email)) {
+            newErrors.email = t('formErrorEmailInvalid');
+            isValid = false;
+        }
+        setErrors(newErrors);
+        return isValid;
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitError(null);
+        if (!validate()) {
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            const items = lines.map(({ item, product }) => ({
+                id: product.id,
+                model: applyOptionSelection(product, item.options || {}).model || null,
+                name: product.name.en,
+                options: describeOptionSelection(product, item.options || {}, 'en'),
+                quantity: item.quantity,
+                note: item.note,
+            }));
+            const result = spam.isSpam() ? { ok: true } : await submitForm({
+                ...spam.fields(),
+                _subject: `Quote request (${items.length} items)`,
+                ...formData,
+                items,
+                summary: items.map(i => `${i.quantity} x ${i.name}${i.model ? ` [${i.model}]` : ''} (${i.id})${i.options.length ? ` {${i.options.join(', ')}}` : ''}${i.note ? ` - ${i.note}` : ''}`).join('\n'),
+            });
+            if (result.ok) {
+                setIsSubmitted(true);
+                setIsQueued(Boolean(result.queued));
+                setFormData({ name: '', email: '', message: '' });
+                quote.clear();
+            } else {
+                const { fieldErrors, errorMessage } = mapFieldErrors(result, QUOTE_FIELDS);
+                setErrors({ name: '', email: '', ...fieldErrors });
+                setSubmitError(result.outboxFull ? t('formOutboxFull') : errorMessage || (Object.keys(fieldErrors).length === 0 ? t('formErrorGeneric') : null));
+            }
+        } catch (error) {
+            console.error("Quote submission error:", error);
+            setSubmitError(t('formErrorGeneric'));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        setFormData({ ...formData, [e.target.name]: e.target.value });
+    };
+
+    return (
+        <div className="page-container container">
+            <PageMeta lang={lang} title={t('quoteTitle')} description={t('metaQuoteDescription')} noIndex />
+            <h1 className="page-title">{t('quoteTitle')}</h1>
+            <div className="title-divider"></div>
+            {isSubmitted ? (
+                <div className="form-success-message">
+                    <p>{isQueued ? t('formQueued') : t('quoteSuccess')}</p>
+                </div>
+            ) : lines.length === 0 ? (
+                <div className="no-results-container">
+                    <p className="no-results-message">{t('quoteEmpty')}</p>
+                    <Link to={localizePath(lang, '/products')} className="cta-button">{t('homeProductsButton')}</Link>
+                </div>
+            ) : (
+                <div className="contact-content quote-content">
+                    <ul className="quote-items">
+                        {lines.map(({ item, product }) => {
+                            const configured = applyOptionSelection(product, item.options || {});
+                            const options = describeOptionSelection(product, item.options || {}, lang);
+                            return (
+                            <li className="quote-item" key={quoteItemKey(item)}>
+                                <ResponsiveImage src={configured.image} alt={localize(product.name, lang)} sizes={IMAGE_SIZES.thumbnail} loading="lazy" />
+                                <div className="quote-item-details">
+                                    <Link to={localizePath(lang, productOptionsPath(product, item.options))}><h3><T content={product.name} lang={lang} /></h3></Link>
+                                    {configured.model && <span className="quote-item-model">{t('productModel')}: {configured.model}</span>}
+                                    {options.length > 0 && <span className="quote-item-options">{options.join(' · ')}</span>}
+                                    <div className="quote-item-fields">
+                                        <label>
+                                            {t('quoteQuantity')}
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                value={item.quantity}
+                                                onChange={(e) => quote.update(quoteItemKey(item), { quantity: Math.max(1, Number(e.target.value) || 1) })}
+                                            />
+                                        </label>
+                                        <label>
+                                            {t('quoteNote')}
+                                            <input
+                                                type="text"
+                                                value={item.note}
+                                                placeholder={t('quoteNotePlaceholder')}
+                                                onChange={(e) => quote.update(quoteItemKey(item), { note: e.target.value })}
+                                            />
+                                        </label>
+                                    </div>
+                                </div>
+                                <button
+                                    className="quote-item-remove"
+                                    onClick={() => quote.remove(quoteItemKey(item))}
+                                    aria-label={`${t('compareRemove')} ${localize(product.name, lang)}`}
+                                >
+                                    &times;
+                                </button>
+                            </li>
+                            );
+                        })}
+                    </ul>
+                    <div className="contact-form">
+                        <h3>{t('quoteFormTitle')}</h3>
+                        <form onSubmit={handleSubmit} noValidate>
+                            <div className="form-group">
+                                <label htmlFor="quote-name">{t('formName')}</label>
+                                <input type="text" id="quote-name" name="name" value={formData.name} onChange={handleChange} className={errors.name ? 'error' : ''} required />
+                                {errors.name && <p className="error-message">{errors.name}</p>}
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="quote-email">{t('formEmail')}</label>
+                                <input type="email" id="quote-email" name="email" value={formData.email} onChange={handleChange} className={errors.email ? 'error' : ''} required />
+                                {errors.email && <p className="error-message">{errors.email}</p>}
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="quote-message">{t('quoteMessage')}</label>
+                                <textarea id="quote-message" name="message" rows={4} value={formData.message} onChange={handleChange}></textarea>
+                            </div>
+                            <HoneypotField id="quote-website" spam={spam} />
+                            <button type="submit" className="cta-button" disabled={isSubmitting}>
+                                {isSubmitting ? t('formSubmitting') : t('quoteSubmit')}
+                            </button>
+                            {submitError && <p className="error-message submit-error">{submitError}</p>}
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const ServicesPage: React.FC<{ services: Service[], lang: Language }> = ({ services, lang }) => {
+    const { t } = useT();
+    return (
+      <div className="page-container container">
+          <PageMeta lang={lang} title={t('navServices')} description={t('servicesSubtitle')} />
+          <h1 className="page-title">{t('navServices')}</h1>
+          <div className="title-divider"></div>
+          <p className="section-subtitle">{t('servicesSubtitle')}</p>
+          <div className="services-grid page-grid">
+              {services.map(service => (
+                  <div className="service-card" key={service.id}>
+                      <ResponsiveImage src={service.image} alt={localize(service.title, lang)} sizes={IMAGE_SIZES.card} loading="lazy" />
+                      <h3><T content={service.title} lang={lang} /></h3>
+                      <p><T content={service.description} lang={lang} /></p>
+                      <Link to={localizePath(lang, `/services/${service.id}/book`)} className="cta-button service-book-button">{t('bookingBookButton')}</Link>
+                  </div>
+              ))}
+          </div>
+      </div>
+    );
+};
+
+const EMPTY_BOOKING: BookingForm = {
+    make: '', model: '', issue: '', photos: [], handover: 'pickup', address: '', date: '', slot: '', name: '', phone: '', email: '',
+};
+
+const BookingPage: React.FC<{
+    services: Service[];
+    products: Product[];
+    booking: BookingSettings;
+    lang: Language;
+}> = ({ services, products, booking, lang }) => {
+    const { t } = useT();
+    const { id } = useParams<{ id: string }>();
+    const service = services.find(s => s.id === id);
+    const [step, setStep] = useState(0);
+    const [form, setForm] = useState<BookingForm>(EMPTY_BOOKING);
+    const [errors, setErrors] = useState<Partial<Record<keyof BookingForm, string>>>({});
+    const [reference, setReference] = useState<string | null>(null);
+    const [isQueued, setIsQueued] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [submitError, setSubmitError] = useState<string | null>(null);
+    const headingRef = useRef<HTMLHeadingElement>(null);
+    const hasNavigated = useRef(false);
+    const spam = useSpamCheck();
+
+    const dates = useMemo(() => getBookingDates(booking).map(toDateKey), [booking]);
+    const slots = form.date ? getTimeSlots(booking, form.date) : [];
+    const suggestions = getChairSuggestions(products, form.make, lang);
+    const current = BOOKING_STEPS[step];
+
+    // Move focus to the new step so screen readers announce it; not on first render.
+    useEffect(() => {
+        if (hasNavigated.current) {
+            headingRef.current?.focus();
+        }
+    }, [step, reference]);
+
+    if (!service) {
+        return <Navigate to={localizePath(lang, '/services')} replace />;
+    }
+    const serviceTitle = localize(service.title, lang);
+
+    const update = (changes: Partial<BookingForm>) => {
+        setForm({ ...form, ...changes });
+        setErrors({});
+    };
+
+    const validate = (target: BookingStep) => {
+        const newErrors: Partial<Record<keyof BookingForm, string>> = {};
+        if (target === 'chair' && !form.make.trim()) {
+            newErrors.make = t('bookingErrorMake');
+        }
+        if (target === 'issue' && !form.issue.trim()) {
+            newErrors.issue = t('bookingErrorIssue');
+        }
+        if (target === 'handover' && form.handover === 'pickup' && !form.address.trim()) {
+            newErrors.address = t('bookingErrorAddress');
+        }
+        if (target === 'schedule' && !form.date) {
+            newErrors.date = t('bookingErrorDate');
+        } else if (target === 'schedule' && !slots.includes(form.slot)) {
+            newErrors.slot = t('bookingErrorTime');
+        }
+        if (target === 'contact') {
+            if (!form.name.trim()) {
+                newErrors.name = t('formErrorName');
+            }
+            if (!form.phone.trim()) {
+                newErrors.phone = t('bookingErrorPhone');
+            } else if (!normalizeSaudiMobile(form.phone)) {
+                newErrors.phone = t('formErrorPhoneInvalid');
+            }
+            if (form.email && !isValidEmail(form.email)) {
+                newErrors.email = t('formErrorEmailInvalid');
+            }
+        }
+        setErrors(newErrors);
+        return Object.keys(newErrors).length === 0;
+    };
+
+    const goTo = (index: number) => {
+        hasNavigated.current = true;
+        setSubmitError(null);
+        setStep(index);
+    };
+
+    const handlePhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = Array.from(e.target.files || []);
+        e.target.value = '';
+        const room = MAX_BOOKING_PHOTOS - form.photos.length;
+        const photos: string[] = [];
+        let error = files.length > room ? t('bookingErrorPhotoLimit', { max: MAX_BOOKING_PHOTOS }) : '';
+        for (const file of files.slice(0, Math.max(0, room))) {
+            try {
+                photos.push(await resizePhoto(file));
+            } catch (readError) {
+                console.error(`Could not read ${file.name}:`, readError);
+                const name = file.name;
+                error = t('bookingErrorPhoto', { name });
+            }
+        }
+        setForm(previous => ({ ...previous, photos: [...previous.photos, ...photos] }));
+        setErrors(error ? { photos: error } : {});
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (current !== 'review') {
+            if (validate(current)) {
+                goTo(step + 1);
+            }
+            return;
+        }
+        setSubmitError(null);
+        setIsSubmitting(true);
+        try {
+            const newReference = createBookingReference();
+            const result = spam.isSpam() ? { ok: true } : await submitForm({
+                ...spam.fields(),
+                _subject: `Maintenance booking ${newReference}: ${service.title.en}`,
+                reference: newReference,
+                service: service.id,
+                chair: [form.make, form.model].filter(Boolean).join(' '),
+                issue: form.issue,
+                handover: form.handover,
+                address: form.handover === 'pickup' ? form.address : null,
+                date: form.date,
+                time: form.slot,
+                name: form.name,
+                phone: normalizeSaudiMobile(form.phone),
+                email: form.email.trim() || null,
+                language: lang,
+                attachments: form.photos.map((data, index) => ({ name: `photo-${index + 1}.jpg`, type: 'image/jpeg', data })),
+            });
+            if (result.ok) {
+                hasNavigated.current = true;
+                setReference(newReference);
+                setIsQueued(Boolean(result.queued));
+            } else {
+                // Show the first field the backend objects to on its own step.
+                const { fieldErrors, errorMessage } = mapFieldErrors(result, BOOKING_PAYLOAD_FIELDS);
+                const firstStep = BOOKING_STEPS.findIndex(name => BOOKING_STEP_FIELDS[name].some(field => fieldErrors[field]));
+                if (firstStep >= 0) {
+                    goTo(firstStep);
+                }
+                setErrors(fieldErrors);
+                setSubmitError(result.outboxFull ? t('formOutboxFull') : errorMessage || (firstStep < 0 ? t('formErrorGeneric') : null));
+            }
+        } catch (error) {
+            console.error("Booking submission error:", error);
+            setSubmitError(t('formErrorGeneric'));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const field = (name: keyof BookingForm) => ({
+        id: `booking-${name}`,
+        name,
+        className: errors[name] ? 'error' : '',
+        'aria-invalid': Boolean(errors[name]),
+        'aria-describedby': errors[name] ? `booking-${name}-error` : undefined,
+    });
+    const fieldError = (name: keyof BookingForm) =>
+        errors[name] && <p className="error-message" id={`booking-${name}-error`}>{errors[name]}</p>;
+
+    if (reference) {
+        return (
+            <div className="page-container container">
+                <PageMeta lang={lang} title={t('bookingConfirmedTitle')} description={t('bookingIntro')} noIndex />
+                <div className="form-success-message booking-confirmation">
+                    {BOOKING_CONFIRMATION_LANGUAGES.map(code => {
+                        const translate = createTranslate(code);
+                        const date = formatBookingDate(form.date, code);
+                        const time = form.slot;
+                        return (
+                            <div key={code} lang={code} dir={LOCALES[code].dir}>
+                                <h2 ref={code === BOOKING_CONFIRMATION_LANGUAGES[0] ? headingRef : undefined} tabIndex={-1}>{translate('bookingConfirmedTitle')}</h2>
+                                <p>{translate('bookingConfirmedText', { reference, date, time })}</p>
+                            </div>
+                        );
+                    })}
+                    <p className="booking-reference" dir="ltr">{reference}</p>
+                    {isQueued && <p>{t('formQueued')}</p>}
+                </div>
+                <div className="booking-confirmation-links">
+                    {ticketSource && <Link to={localizePath(lang, `/track?ref=${reference}`)} className="cta-button">{t('navTrack')}</Link>}
+                    <Link to={localizePath(lang, '/services')}>{t('navServices')}</Link>
+                </div>
+            </div>
+        );
+    }
+
+    const index = step + 1;
+    const count = BOOKING_STEPS.length;
+    const review: [TranslationKey, string][] = [
+        ['bookingStepChair', [form.make, form.model].filter(Boolean).join(' ')],
+        ['bookingStepIssue', form.issue],
+        ['bookingStepHandover', form.handover === 'pickup' ? `${t('bookingPickup')}: ${form.address}` : t('bookingDropoff')],
+        ['bookingStepSchedule', form.date && `${formatBookingDate(form.date, lang)}, ${form.slot}`],
+        ['bookingStepContact', [form.name, form.phone, form.email].filter(Boolean).join(' · ')],
+    ];
+
+    return (
+        <div className="page-container container">
+            <PageMeta lang={lang} title={t('bookingTitle', { service: serviceTitle })} description={t('bookingIntro')} noIndex />
+            <h1 className="page-title">{t('bookingTitle', { service: serviceTitle })}</h1>
+            <div className="title-divider"></div>
+            <p className="section-subtitle">{t('bookingIntro')}</p>
+            <ol className="booking-steps">
+                {BOOKING_STEPS.map((name, stepIndex) => (
+                    <li
+                        key={name}
+                        className={stepIndex === step ? 'current' : stepIndex < step ? 'done' : ''}
+                        aria-current={stepIndex === step ? 'step' : undefined}
+                    >
+                        {t(BOOKING_STEP_LABELS[name])}
+                    </li>
+                ))}
+            </ol>
+            <form className="contact-form booking-form" onSubmit={handleSubmit} noValidate>
+                <p className="booking-step-count">{t('bookingStepOf', { index, count })}</p>
+                <h2 ref={headingRef} tabIndex={-1}>{t(BOOKING_STEP_LABELS[current])}</h2>
+                {current === 'chair' && (
+                    <>
+                        <div className="form-group">
+                            <label htmlFor="booking-make">{t('bookingMake')}</label>
+                            <input type="text" list="booking-makes" autoComplete="off" value={form.make} onChange={(e) => update({ make: e.target.value })} {...field('make')} required />
+                            <datalist id="booking-makes">
+                                {suggestions.makes.map(make => <option key={make} value={make} />)}
+                            </datalist>
+                            <p className="form-hint">{t('bookingMakeHint')}</p>
+                            {fieldError('make')}
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="booking-model">{t('bookingModel')}</label>
+                            <input type="text" list="booking-models" autoComplete="off" value={form.model} onChange={(e) => update({ model: e.target.value })} {...field('model')} />
+                            <datalist id="booking-models">
+                                {suggestions.models.map(model => <option key={model} value={model} />)}
+                            </datalist>
+                        </div>
+                    </>
+                )}
+                {current === 'issue' && (
+                    <>
+                        <div className="form-group">
+                            <label htmlFor="booking-issue">{t('bookingIssue')}</label>
+                            <textarea rows={5} placeholder={t('bookingIssuePlaceholder')} value={form.issue} onChange={(e) => update({ issue: e.target.value })} {...field('issue')} required></textarea>
+                            {fieldError('issue')}
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="booking-photos">{t('bookingPhotos', { max: MAX_BOOKING_PHOTOS })}</label>
+                            <input type="file" accept="image/*" multiple disabled={form.photos.length >= MAX_BOOKING_PHOTOS} onChange={handlePhotos} {...field('photos')} />
+                            {fieldError('photos')}
+                            {form.photos.length > 0 && (
+                                <ul className="booking-photos">
+                                    {form.photos.map((photo, photoIndex) => {
+                                        const number = photoIndex + 1;
+                                        return (
+                                            <li key={photoIndex}>
+                                                <img src={photo} alt="" />
+                                                <button
+                                                    type="button"
+                                                    className="booking-photo-remove"
+                                                    onClick={() => update({ photos: form.photos.filter((_, i) => i !== photoIndex) })}
+                                                    aria-label={t('bookingRemovePhoto', { index: number })}
+                                                >
+                                                    &times;
+                                                </button>
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            )}
+                        </div>
+                    </>
+                )}
+                {current === 'handover' && (
+                    <>
+                        <fieldset className="booking-choice">
+                            <legend className="sr-only">{t('bookingStepHandover')}</legend>
+                            {(['pickup', 'dropoff'] as const).map(handover => (
+                                <label key={handover} className={form.handover === handover ? 'selected' : ''}>
+                                    <input type="radio" name="handover" value={handover} checked={form.handover === handover} onChange={() => update({ handover })} />
+                                    {t(handover === 'pickup' ? 'bookingPickup' : 'bookingDropoff')}
+                                </label>
+                            ))}
+                        </fieldset>
+                        {form.handover === 'pickup' ? (
+                            <div className="form-group">
+                                <label htmlFor="booking-address">{t('bookingAddress')}</label>
+                                <textarea rows={3} autoComplete="street-address" value={form.address} onChange={(e) => update({ address: e.target.value })} {...field('address')} required></textarea>
+                                {fieldError('address')}
+                            </div>
+                        ) : (
+                            <p className="form-hint">{t('bookingWorkshopAddress')}</p>
+                        )}
+                    </>
+                )}
+                {current === 'schedule' && (
+                    <>
+                        <div className="form-group">
+                            <label htmlFor="booking-date">{t('bookingDate')}</label>
+                            <select value={form.date} onChange={(e) => update({ date: e.target.value, slot: '' })} {...field('date')} required>
+                                <option value="">—</option>
+                                {dates.map(date => <option key={date} value={date}>{formatBookingDate(date, lang)}</option>)}
+                            </select>
+                            {fieldError('date')}
+                        </div>
+                        {form.date && (
+                            <fieldset className="booking-slots" aria-describedby={errors.slot ? 'booking-slot-error' : undefined}>
+                                <legend>{t('bookingTime')}</legend>
+                                {slots.map(slot => (
+                                    <button
+                                        type="button"
+                                        key={slot}
+                                        className={`booking-slot ${form.slot === slot ? 'selected' : ''}`}
+                                        aria-pressed={form.slot === slot}
+                                        onClick={() => update({ slot })}
+                                        dir="ltr"
+                                    >
+                                        {slot}
+                                    </button>
+                                ))}
+                            </fieldset>
+                        )}
+                        {fieldError('slot')}
+                    </>
+                )}
+                {current === 'contact' && (
+                    <>
+                        <div className="form-group">
+                            <label htmlFor="booking-name">{t('formName')}</label>
+                            <input type="text" autoComplete="name" value={form.name} onChange={(e) => update({ name: e.target.value })} {...field('name')} required />
+                            {fieldError('name')}
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="booking-phone">{t('formPhone')}</label>
+                            <input type="tel" autoComplete="tel" dir="ltr" value={form.phone} onChange={(e) => update({ phone: e.target.value })} {...field('phone')} required />
+                            {fieldError('phone')}
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="booking-email">{t('formEmailOptional')}</label>
+                            <input type="email" autoComplete="email" value={form.email} onChange={(e) => update({ email: e.target.value })} {...field('email')} />
+                            {fieldError('email')}
+                        </div>
+                    </>
+                )}
+                {current === 'review' && (
+                    <dl className="booking-review">
+                        {review.map(([label, value]) => (
+                            <div key={label}>
+                                <dt>{t(label)}</dt>
+                                <dd>{value}</dd>
+                            </div>
+                        ))}
+                        {form.photos.length > 0 && (
+                            <div>
+                                <dt>{t('bookingPhotos', { max: MAX_BOOKING_PHOTOS })}</dt>
+                                <dd className="booking-photos">{form.photos.map((photo, photoIndex) => <img key={photoIndex} src={photo} alt="" />)}</dd>
+                            </div>
+                        )}
+                    </dl>
+                )}
+                <div className="booking-actions">
+                    {step > 0 && (
+                        <button type="button" className="booking-back" onClick={() => goTo(step - 1)} disabled={isSubmitting}>
+                            {t('bookingBack')}
+                        </button>
+                    )}
+                    <button type="submit" className="cta-button" disabled={isSubmitting}>
+                        {current !== 'review' ? t('bookingNext') : isSubmitting ? t('formSubmitting') : t('bookingSubmit')}
+                    </button>
+                </div>
+                <HoneypotField id="booking-website" spam={spam} />
+                {submitError && <p className="error-message submit-error">{submitError}</p>}
+            </form>
+        </div>
+    );
 };
 
-const AboutPage: React.FC<{ lang: Language, translations: any }> = ({ lang, translations }) => (
-    <div className="page-container container">
-        <h1 className="page-title"><T content={translations.navAbout} lang={lang} /></h1>
-        <div className="title-divider"></div>
-        <div className="about-content">
-            <div className="about-text">
-                <p><T content={translations.aboutText1} lang={lang} /></p>
-                <p><T content={translations.aboutText2} lang={lang} /></p>
-                <h3><T content={translations.aboutVisionTitle} lang={lang} /></h3>
-                <p><T content={translations.aboutVisionText} lang={lang} /></p>
-                <h3><T content={translations.aboutMissionTitle} lang={lang} /></h3>
-                <p><T content={translations.aboutMissionText} lang={lang} /></p>
-            </div>
-            <div className="about-image">
-                <img src="https://i.imgur.com/xApFqZi.jpeg" alt={translations.aboutImageAlt[lang]} loading="lazy" />
-            </div>
-        </div>
-    </div>
-);
+const TrackPage: React.FC<{ source: TicketSource; lang: Language }> = ({ source, lang }) => {
+    const { t } = useT();
+    const [searchParams] = useSearchParams();
+    const [formData, setFormData] = useState({ reference: searchParams.get('ref') || '', phone: '' });
+    const [errors, setErrors] = useState({ reference: '', phone: '' });
+    const [ticket, setTicket] = useState<RepairTicket | null>(null);
+    const [isSearching, setIsSearching] = useState(false);
+    const [lookupError, setLookupError] = useState<string | null>(null);
+    const resultRef = useRef<HTMLHeadingElement>(null);
 
-const ProductsPage: React.FC<{ 
-    products: Product[]; 
-    lang: Language; 
-    translations: any; 
-}> = ({ products, lang, translations }) => {
-    const [searchParams, setSearchParams] = useSearchParams();
-    const activeCategory = searchParams.get('category') || 'all';
-    
-    const [searchTerm, setSearchTerm] = useState('');
-    const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
-    const [sortOrder, setSortOrder] = useState('default');
-    const debouncedSearchTerm = useDebounce(searchTerm, 300);
-    const navigate = useNavigate();
+    useEffect(() => {
+        if (ticket) {
+            resultRef.current?.focus();
+        }
+    }, [ticket]);
 
-    const setActiveCategory = (category: string) => {
-        setSearchParams(category === 'all' ? {} : { category });
+    const validate = () => {
+        const newErrors = { reference: '', phone: '' };
+        let isValid = true;
+        if (!formData.reference.trim()) {
+            newErrors.reference = t('trackErrorReference');
+            isValid = false;
+        }
+        if (normalizePhone(formData.phone).length < 9) {
+            newErrors.phone = t('bookingErrorPhone');
+            isValid = false;
+        }
+        setErrors(newErrors);
+        return isValid;
     };
 
-    const categories = {
-        'all': { label: translations.categoryAll },
-        'standard': { label: translations.categoryStandard },
-        'sport-lightweight': { label: translations.categorySportLightweight },
-        'lightweight': { label: translations.categoryLightweight },
-        'children': { label: translations.categoryChildren },
-        'electric': { label: translations.categoryElectric },
-        'bathroom': { label: translations.categoryBathroom },
-        'accessories': { label: translations.categoryAccessories },
-        'movable': { label: translations.categoryMovable },
-        'beds': { label: translations.categoryMedicalBeds },
-        'mattresses': { label: translations.categoryMattresses },
-        'walkers': { label: translations.categoryWalkers },
-        'diapers': { label: translations.categoryDiapers },
-        'cushions': { label: translations.categoryCushions },
-        'respiratory': { label: translations.categoryRespiratory },
-        'diagnostic': { label: translations.categoryDiagnostic },
-        'furniture': { label: translations.categoryFurniture },
-        'consumables': { label: translations.categoryConsumables },
-    };
-    
-    let filteredProducts = products.filter(product => {
-        let productCategory = product.mainCategory;
-        
-        // Map existing data to new categories if necessary or handle existing logic
-        if (['sport-lightweight', 'lightweight', 'children'].includes(product.mainCategory) && activeCategory === 'movable') {
-            // Optionally group these under movable if desired, but user requested original categories.
-            // If 'movable' is selected, we might want to show all manual wheelchairs.
-            // For now, strict matching as per data.json.
-            // If product.mainCategory is one of the specific types, it won't match 'movable' unless we add logic.
-             if (activeCategory === 'movable' && ['sport-lightweight', 'lightweight', 'children', 'standard'].includes(product.mainCategory)) {
-                 return true;
-             }
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLookupError(null);
+        setTicket(null);
+        if (!validate()) {
+            return;
+        }
+        setIsSearching(true);
+        try {
+            const found = await source.find(formData.reference, formData.phone);
+            if (found) {
+                setTicket(found);
+            } else {
+                setLookupError(t('trackNotFound'));
+            }
+        } catch (error) {
+            console.error("Ticket lookup error:", error);
+            setLookupError(t('trackUnavailable'));
+        } finally {
+            setIsSearching(false);
         }
+    };
 
-        const matchesCategory = activeCategory === 'all' || product.mainCategory === activeCategory || (activeCategory === 'movable' && ['sport-lightweight', 'lightweight', 'children', 'standard'].includes(product.mainCategory));
-        
-        const matchesSearch = debouncedSearchTerm.trim() === '' || 
-            product.name.en.toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
-            product.name.ar.toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
-            product.manufacturer.en.toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
-            product.manufacturer.ar.toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
-            product.category.en.toLowerCase().includes(debouncedSearchTerm.toLowerCase()) ||
-            product.category.ar.toLowerCase().includes(debouncedSearchTerm.toLowerCase());
-
-        return matchesCategory && matchesSearch;
-    });
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setFormData({ ...formData, [e.target.name]: e.target.value });
+    };
 
-    const sortedProducts = [...filteredProducts].sort((a, b) => {
-        if (sortOrder === 'name-asc') {
-            return a.name[lang].localeCompare(b.name[lang]);
-        }
-        if (sortOrder === 'name-desc') {
-            return b.name[lang].localeCompare(a.name[lang]);
-        }
-        return 0; // default
-    });
-    
-    const currentCategoryName = categories[activeCategory]?.label[lang];
+    const currentIndex = ticket ? TICKET_STATUSES.indexOf(ticket.status) : -1;
+    const reference = ticket?.reference || '';
+    const date = ticket?.estimatedReady ? formatBookingDate(ticket.estimatedReady, lang) : '';
 
     return (
-      <div className="page-container container">
-        <h1 className="page-title"><T content={translations.navProducts} lang={lang} /></h1>
-        <div className="title-divider"></div>
-        <div className="products-page-layout">
-          <aside className="products-sidebar">
-            <h3><T content={translations.productCategories} lang={lang}/></h3>
-            <ul className="category-list">
-              {Object.entries(categories).map(([key, value]) => (
-                <li key={key}>
-                    <button 
-                        className={`category-link ${activeCategory === key ? 'active' : ''}`}
-                        onClick={() => setActiveCategory(key)}
-                    >
-                        <T content={value.label} lang={lang}/>
-                    </button>
-                </li>
-              ))}
-            </ul>
-          </aside>
-          <div className="products-main-content">
-            <div className="product-controls">
-                <div className="product-search-bar">
-                    <input
-                        type="search"
-                        placeholder={translations.productSearchPlaceholder[lang]}
-                        value={searchTerm}
-                        onChange={(e) => setSearchTerm(e.target.value)}
-                        aria-label={translations.productSearchPlaceholder[lang]}
-                    />
-                    <i className="search-icon" aria-hidden="true"></i>
-                </div>
-                <div className="product-view-controls">
-                    <div className="view-mode-toggle">
-                        <button className={viewMode === 'grid' ? 'active' : ''} onClick={() => setViewMode('grid')} aria-label={translations.ariaGridView[lang]}>
-                            <i className="icon-grid"></i>
-                        </button>
-                        <button className={viewMode === 'list' ? 'active' : ''} onClick={() => setViewMode('list')} aria-label={translations.ariaListView[lang]}>
-                            <i className="icon-list"></i>
-                        </button>
-                    </div>
-
-                    {/* Mobile Category Select */}
-                    <div className="select-wrapper mobile-only">
-                         <label htmlFor="mobile-category-select" className="sr-only"><T content={translations.productCategories} lang={lang}/></label>
-                         <select id="mobile-category-select" value={activeCategory} onChange={(e) => setActiveCategory(e.target.value)}>
-                            {Object.entries(categories).map(([key, value]) => (
-                                <option key={key} value={key}><T content={value.label} lang={lang}/></option>
-                            ))}
-                         </select>
+        <div className="page-container container">
+            <PageMeta lang={lang} title={t('trackTitle')} description={t('metaTrackDescription')} />
+            <h1 className="page-title">{t('trackTitle')}</h1>
+            <div className="title-divider"></div>
+            <p className="section-subtitle">{t('trackIntro')}</p>
+            <div className="contact-form track-form">
+                <form onSubmit={handleSubmit} noValidate>
+                    <div className="form-group">
+                        <label htmlFor="track-reference">{t('trackReference')}</label>
+                        <input type="text" id="track-reference" name="reference" dir="ltr" autoComplete="off" placeholder="WOE-000000-XXXX" value={formData.reference} onChange={handleChange} className={errors.reference ? 'error' : ''} required />
+                        {errors.reference && <p className="error-message">{errors.reference}</p>}
                     </div>
-                    
-                    {/* Desktop Sort Select */}
-                    <div className="select-wrapper desktop-only">
-                         <label htmlFor="sort-select" className="sr-only"><T content={translations.ariaSortBy} lang={lang}/></label>
-                         <select id="sort-select" value={sortOrder} onChange={(e) => setSortOrder(e.target.value)}>
-                             <option value="default"><T content={translations.sortDefault} lang={lang}/></option>
-                             <option value="name-asc"><T content={translations.sortNameAsc} lang={lang}/></option>
-                             <option value="name-desc"><T content={translations.sortNameDesc} lang={lang}/></option>
-                         </select>
+                    <div className="form-group">
+                        <label htmlFor="track-phone">{t('formPhone')}</label>
+                        <input type="tel" id="track-phone" name="phone" dir="ltr" autoComplete="tel" value={formData.phone} onChange={handleChange} className={errors.phone ? 'error' : ''} required />
+                        {errors.phone && <p className="error-message">{errors.phone}</p>}
                     </div>
-                </div>
-            </div>
-            
-            <div className="product-list-header">
-                <h2>{currentCategoryName || <T content={translations.categoryAll} lang={lang}/>}</h2>
-                <span>(<T content={translations.productCount} lang={lang} args={{count: sortedProducts.length}}/>)</span>
+                    <button type="submit" className="cta-button" disabled={isSearching}>
+                        {isSearching ? t('trackChecking') : t('trackSubmit')}
+                    </button>
+                    {lookupError && <p className="error-message submit-error" role="alert">{lookupError}</p>}
+                </form>
             </div>
-
-            {sortedProducts.length > 0 ? (
-                <div className={`product-${viewMode}`}>
-                    {sortedProducts.map(product => (
-                      <div onClick={() => navigate(`/products/${product.id}`)} className="product-card" key={product.id}>
-                          <div className="product-card-image">
-                              <img src={product.image} alt={product.name[lang]} loading="lazy" />
-                          </div>
-                          <div className="product-card-info">
-                              <div className="product-card-tags">
-                                  <span className="manufacturer"><T content={product.manufacturer} lang={lang} /></span>
-                                  <span className="category"><T content={product.category} lang={lang} /></span>
-                              </div>
-                              <h3><T content={product.name} lang={lang} /></h3>
-                              <p><T content={product.shortDescription} lang={lang} /></p>
-                              <span className="cta-button-outline">
-                                <T content={translations.productViewDetails} lang={lang} />
-                              </span>
-                          </div>
-                      </div>
-                    ))}
-                </div>
-            ) : (
-                <div className="no-results-container">
-                    <span role="img" aria-label={translations.ariaSadFace[lang]}>😔</span>
-                    <p className="no-results-message"><T content={translations.productNoResults} lang={lang} /></p>
-                </div>
+            {ticket && (
+                <section className="track-result" aria-labelledby="track-result-title">
+                    <h2 id="track-result-title" ref={resultRef} tabIndex={-1}>{t('trackResultTitle', { reference })}</h2>
+                    {ticket.chair && <p className="track-chair">{ticket.chair}</p>}
+                    {ticket.estimatedReady && currentIndex < TICKET_STATUSES.indexOf('ready') && (
+                        <p className="track-estimate">{t('trackEstimatedReady', { date })}</p>
+                    )}
+                    <ol className="track-timeline">
+                        {TICKET_STATUSES.map((status, index) => {
+                            const event = [...ticket.history].reverse().find(entry => entry.status === status);
+                            const state = index < currentIndex ? 'done' : index === currentIndex ? 'current' : 'pending';
+                            return (
+                                <li key={status} className={`track-step ${state}`} aria-current={state === 'current' ? 'step' : undefined}>
+                                    <span className="track-step-marker" aria-hidden="true"></span>
+                                    <div className="track-step-body">
+                                        <h3>{t(TICKET_STATUS_LABELS[status])}</h3>
+                                        <span className="sr-only">{t(state === 'done' ? 'trackStepDone' : state === 'current' ? 'trackStepCurrent' : 'trackStepPending')}</span>
+                                        {event && <time dateTime={event.at}>{formatTicketTime(event.at, lang)}</time>}
+                                        {event?.note && <p><T content={event.note} lang={lang} /></p>}
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ol>
+                </section>
             )}
-          </div>
-        </div>
         </div>
     );
 };
 
-const ProductDetailPage: React.FC<{ 
-    lang: Language; 
-    translations: any; 
-    allProducts: Product[];
-}> = ({ lang, translations, allProducts }) => {
-    const { id } = useParams();
+interface AssistantTurn {
+    question: string;
+    answer?: AssistantAnswer;
+}
+
+const AssistantPage: React.FC<{ data: AppData; model: AssistantModel; quote: QuoteBasket; lang: Language }> = ({ data, model, quote, lang }) => {
+    const { t } = useT();
     const navigate = useNavigate();
-    const product = allProducts.find(p => p.id === id);
-    const [currentImageIndex, setCurrentImageIndex] = useState(0);
+    const [draft, setDraft] = useState('');
+    const [turns, setTurns] = useState<AssistantTurn[]>([]);
+    const [isAsking, setIsAsking] = useState(false);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const context = useMemo(() => buildAssistantContext(data, lang), [data, lang]);
 
-    useEffect(() => {
-        setCurrentImageIndex(0);
-    }, [product]);
+    const ask = async (text: string) => {
+        const asked = text.trim();
+        if (!asked || isAsking) {
+            return;
+        }
+        const messages: AssistantMessage[] = [
+            ...turns.flatMap(turn => turn.answer
+                ? [{ role: 'user' as const, text: turn.question }, { role: 'assistant' as const, text: turn.answer.text }]
+                : []),
+            { role: 'user', text: asked },
+        ];
+        setTurns(prev => [...prev, { question: asked }]);
+        setDraft('');
+        setIsAsking(true);
+        let answer: AssistantAnswer;
+        try {
+            answer = await model.answer(context, messages);
+        } catch (error) {
+            console.error("Assistant error:", error);
+            answer = { text: t('assistantStubNotFound'), productIds: [], handoff: 'contact' };
+        }
+        setTurns(prev => prev.map((turn, index) => index === prev.length - 1 ? { ...turn, answer } : turn));
+        setIsAsking(false);
+    };
 
-    if (!product) {
-        return (
-            <div className="page-container container" style={{textAlign: 'center', padding: '5rem 0'}}>
-                 <h2>Product not found</h2>
-                 <Link to="/products" className="cta-button">Back to Products</Link>
-            </div>
-        );
-    }
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        ask(draft);
+    };
+
+    const startOver = () => {
+        setTurns([]);
+        inputRef.current?.focus();
+    };
 
-    const allImages = [product.image, ...(product.otherImages || [])];
-    const relatedProducts = allProducts.filter(p => p.mainCategory === product.mainCategory && p.id !== product.id).slice(0, 4);
+    // Products with options are added in their default configuration, as on their own page.
+    const requestQuote = (products: Product[]) => {
+        products
+            .map(product => ({ productId: product.id, options: product.options ? getOptionSelection(product) : undefined }))
+            .filter(line => !quote.items.some(item => quoteItemKey(item) === quoteItemKey(line)))
+            .forEach(line => quote.add(line.productId, 1, '', line.options));
+        navigate(localizePath(lang, '/quote'));
+    };
 
     return (
-        <div className="page-container container product-detail-page">
-            <div className="breadcrumbs">
-                <Link to="/products"><T content={translations.navProducts} lang={lang}/></Link> / <span><T content={product.name} lang={lang}/></span>
-            </div>
-            <div className="product-detail-layout">
-                <div className="product-gallery">
-                    <div className="main-image-container">
-                        <img src={allImages[currentImageIndex]} alt={product.name[lang]}/>
-                    </div>
-                    {allImages.length > 1 && (
-                        <div className="thumbnail-container">
-                            {allImages.map((img, index) => (
-                                <button
-                                    key={index}
-                                    className={`thumbnail-button ${index === currentImageIndex ? 'active' : ''}`}
-                                    onClick={() => setCurrentImageIndex(index)}
-                                    aria-label={`${translations.ariaViewImage[lang]} ${index + 1}`}
-                                >
-                                    <img src={img} alt={`${translations.thumbnailAlt[lang]} ${index + 1}`} loading="lazy"/>
-                                </button>
-                            ))}
+        <div className="page-container container">
+            <PageMeta lang={lang} title={t('assistantTitle')} description={t('metaAssistantDescription')} />
+            <h1 className="page-title">{t('assistantTitle')}</h1>
+            <div className="title-divider"></div>
+            <p className="section-subtitle">{t('assistantIntro')}</p>
+            <section className="assistant-panel" aria-label={t('navAssistant')}>
+                <div className="assistant-log" role="log" aria-live="polite">
+                    {turns.length === 0 && (
+                        <div className="assistant-examples">
+                            <p>{t('assistantExamples')}</p>
+                            <ul>
+                                {ASSISTANT_EXAMPLES.map(key => (
+                                    <li key={key}>
+                                        <button type="button" onClick={() => ask(t(key))}>{t(key)}</button>
+                                    </li>
+                                ))}
+                            </ul>
                         </div>
                     )}
-                </div>
-                <div className="product-info">
-                    <h1><T content={product.name} lang={lang}/></h1>
-                    <div className="product-meta">
-                        <span><strong><T content={translations.productManufacturer} lang={lang}/>:</strong> <T content={product.manufacturer} lang={lang}/></span>
-                        <span><strong><T content={translations.productCategory} lang={lang}/>:</strong> <T content={product.category} lang={lang}/></span>
-                        {product.model && <span><strong><T content={translations.productModel} lang={lang}/>:</strong> {product.model}</span>}
-                    </div>
-                    <p className="product-description-detail"><T content={product.shortDescription} lang={lang}/></p>
-                    
-                    <h3><T content={translations.productFeatures} lang={lang}/></h3>
-                    <ul className="features-list">
-                        {product.features.map((feature, index) => (
-                            <li key={index}><i className="icon-tick"></i><T content={feature} lang={lang}/></li>
-                        ))}
-                    </ul>
-                    <p className="product-origin"><strong><T content={translations.productOrigin} lang={lang} />:</strong> <T content={product.countryOfOrigin} lang={lang} /></p>
-                    <a href="mailto:Customer@woe.sa" className="cta-button contact-cta">
-                        <i className="icon-email-cta"></i>
-                        <T content={translations.productContact} lang={lang} />
-                    </a>
-                </div>
-            </div>
-            {relatedProducts.length > 0 && (
-                <div className="related-products-section">
-                    <h2><T content={translations.relatedProducts} lang={lang}/></h2>
-                    <div className="product-grid">
-                        {relatedProducts.map(p => (
-                            <div onClick={() => navigate(`/products/${p.id}`)} className="product-card" key={p.id}>
-                                <div className="product-card-image">
-                                    <img src={p.image} alt={p.name[lang]} loading="lazy" />
-                                </div>
-                                <div className="product-card-info">
-                                    <h3><T content={p.name} lang={lang} /></h3>
-                                    <p><T content={p.shortDescription} lang={lang} /></p>
-                                    <span className="cta-button-outline"><T content={translations.productViewDetails} lang={lang}/></span>
+                    {turns.map(({ question, answer }, index) => {
+                        const suggestions = (answer ? citedProducts(context, answer) : []).flatMap(cited =>
+                            data.products.filter(product => product.id === cited.id).map(product => ({ product, path: cited.path }))
+                        );
+                        const products = suggestions.map(suggestion => suggestion.product);
+                        const message = t('assistantContactMessage', { question });
+                        return (
+                            <div className="assistant-turn" key={index}>
+                                <div className="assistant-message from-user">
+                                    <span className="sr-only">{t('assistantYou')}: </span>
+                                    <p>{question}</p>
                                 </div>
+                                {answer && (
+                                    <div className="assistant-message from-assistant">
+                                        <span className="sr-only">{t('assistantName')}: </span>
+                                        <p>{answer.text}</p>
+                                        {products.length > 0 && (
+                                            <ul className="assistant-products" aria-label={t('assistantSuggestions')}>
+                                                {suggestions.map(({ product, path }) => (
+                                                    <li key={product.id}>
+                                                        <Link to={localizePath(lang, path)} className="assistant-product">
+                                                            <ResponsiveImage src={product.image} alt="" sizes="5rem" loading="lazy" />
+                                                            <span className="assistant-product-info">
+                                                                <span className="assistant-product-name"><T content={product.name} lang={lang} /></span>
+                                                                <ProductPrice product={product} />
+                                                            </span>
+                                                        </Link>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                        {answer.handoff && (
+                                            <div className="assistant-handoff">
+                                                {answer.handoff === 'quote' && products.length > 0 && (
+                                                    <button type="button" className="cta-button" onClick={() => requestQuote(products)}>
+                                                        {t('assistantHandoffQuote')}
+                                                    </button>
+                                                )}
+                                                <Link to={localizePath(lang, `/contact?message=${encodeURIComponent(message)}`)} className="cta-button-outline">
+                                                    {t('assistantHandoffContact')}
+                                                </Link>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
                             </div>
-                        ))}
-                    </div>
+                        );
+                    })}
+                    {isAsking && <p className="assistant-thinking">{t('assistantThinking')}</p>}
                 </div>
-            )}
+                <form className="assistant-form" onSubmit={handleSubmit}>
+                    <label htmlFor="assistant-question" className="sr-only">{t('assistantInputLabel')}</label>
+                    <input
+                        ref={inputRef}
+                        type="text"
+                        id="assistant-question"
+                        autoComplete="off"
+                        maxLength={MAX_MESSAGE_LENGTH}
+                        placeholder={t('assistantInputLabel')}
+                        value={draft}
+                        onChange={e => setDraft(e.target.value)}
+                    />
+                    <button type="submit" className="cta-button" disabled={isAsking || !draft.trim()}>{t('assistantSend')}</button>
+                </form>
+                <div className="assistant-footer">
+                    <p className="assistant-disclaimer">{t('assistantDisclaimer')}</p>
+                    {turns.length > 0 && (
+                        <button type="button" className="assistant-clear" onClick={startOver} disabled={isAsking}>{t('assistantClear')}</button>
+                    )}
+                </div>
+            </section>
         </div>
     );
 };
 
-
-const ServicesPage: React.FC<{ services: Service[], lang: Language, translations: any }> = ({ services, lang, translations }) => (
-    <div className="page-container container">
-        <h1 className="page-title"><T content={translations.navServices} lang={lang} /></h1>
-        <div className="title-divider"></div>
-        <p className="section-subtitle"><T content={translations.servicesSubtitle} lang={lang} /></p>
-        <div className="services-grid page-grid">
-            {services.map(service => (
-                <div className="service-card" key={service.id}>
-                    <img src={service.image} alt={service.title[lang]} loading="lazy" />
-                    <h3><T content={service.title} lang={lang} /></h3>
-                    <p><T content={service.description} lang={lang} /></p>
-                </div>
-            ))}
-        </div>
-    </div>
-);
-
-const FAQPage: React.FC<{ faqs: FAQ[], lang: Language, translations: any }> = ({ faqs, lang, translations }) => {
+const FAQPage: React.FC<{ faqs: FAQ[], lang: Language }> = ({ faqs, lang }) => {
+    const { t } = useT();
     const [openIndex, setOpenIndex] = useState<number | null>(0);
 
     const toggleFAQ = (index: number) => {
@@ -802,7 +3994,8 @@ const FAQPage: React.FC<{ faqs: FAQ[], lang: Language, translations: any }> = ({
 
     return (
         <div className="page-container container">
-            <h1 className="page-title"><T content={translations.navFAQ} lang={lang} /></h1>
+            <PageMeta lang={lang} title={t('navFAQ')} description={t('metaFaqDescription')} jsonLd={[faqJsonLd(faqs, lang)]} />
+            <h1 className="page-title">{t('navFAQ')}</h1>
             <div className="title-divider"></div>
             <div className="faq-list">
                 {faqs.map((faq, index) => (
@@ -825,33 +4018,43 @@ const FAQPage: React.FC<{ faqs: FAQ[], lang: Language, translations: any }> = ({
     );
 };
 
-const ContactPage: React.FC<{ lang: Language, translations: any }> = ({ lang, translations }) => {
-    const [formData, setFormData] = useState({ name: '', email: '', message: '' });
-    const [errors, setErrors] = useState({ name: '', email: '', message: '' });
+// Backend field names the contact form shows errors for.
+const CONTACT_FIELDS = { name: 'name', email: 'email', phone: 'phone', message: 'message', attachments: 'attachments' } as const;
+type ContactField = typeof CONTACT_FIELDS[keyof typeof CONTACT_FIELDS];
+
+const EMPTY_CONTACT_FORM = { name: '', email: '', phone: '', message: '' };
+
+const ContactPage: React.FC<{ contact: ContactSettings; lang: Language }> = ({ contact, lang }) => {
+    const { t } = useT();
+    const [searchParams] = useSearchParams();
+    // The product assistant hands questions it cannot answer over as ?message=.
+    const [formData, setFormData] = useState(() => ({ ...EMPTY_CONTACT_FORM, message: searchParams.get('message') || '' }));
+    const [attachments, setAttachments] = useState<FormAttachment[]>([]);
+    const [errors, setErrors] = useState<Partial<Record<ContactField, string>>>({});
     const [isSubmitted, setIsSubmitted] = useState(false);
+    const [isQueued, setIsQueued] = useState(false);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [submitError, setSubmitError] = useState<string | null>(null);
+    const spam = useSpamCheck();
 
     const validate = () => {
-        const newErrors = { name: '', email: '', message: '' };
-        let isValid = true;
+        const newErrors: Partial<Record<ContactField, string>> = {};
         if (!formData.name) {
-            newErrors.name = translations.formErrorName[lang];
-            isValid = false;
+            newErrors.name = t('formErrorName');
         }
         if (!formData.email) {
-            newErrors.email = translations.formErrorEmail[lang];
-            isValid = false;
-        } else if (!/\S+@\S+\.\S+/.test(formData.email)) {
-            newErrors.email = translations.formErrorEmailInvalid[lang];
-            isValid = false;
+            newErrors.email = t('formErrorEmail');
+        } else if (!isValidEmail(formData.email)) {
+            newErrors.email = t('formErrorEmailInvalid');
+        }
+        if (formData.phone.trim() && !normalizeSaudiMobile(formData.phone)) {
+            newErrors.phone = t('formErrorPhoneInvalid');
         }
         if (!formData.message) {
-            newErrors.message = translations.formErrorMessage[lang];
-            isValid = false;
+            newErrors.message = t('formErrorMessage');
         }
         setErrors(newErrors);
-        return isValid;
+        return Object.keys(newErrors).length === 0;
     };
 
     const handleSubmit = async (e: React.FormEvent) => {
@@ -862,29 +4065,26 @@ const ContactPage: React.FC<{ lang: Language, translations: any }> = ({ lang, tr
         }
         setIsSubmitting(true);
         try {
-            const response = await fetch('https://formspree.io/f/xeqyqdrj', {
-                method: 'POST',
-                headers: {
-                    'Accept': 'application/json',
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify(formData),
+            const result = spam.isSpam() ? { ok: true } : await submitForm({
+                ...spam.fields(),
+                ...formData,
+                email: formData.email.trim(),
+                phone: normalizeSaudiMobile(formData.phone),
+                attachments,
             });
-
-            if (response.ok) {
+            if (result.ok) {
                 setIsSubmitted(true);
-                setFormData({ name: '', email: '', message: '' });
+                setIsQueued(Boolean(result.queued));
+                setFormData(EMPTY_CONTACT_FORM);
+                setAttachments([]);
             } else {
-                const data = await response.json();
-                if (Object.prototype.hasOwnProperty.call(data, 'errors')) {
-                    setSubmitError(data["errors"].map((error: any) => error["message"]).join(", "));
-                } else {
-                    setSubmitError(translations.formErrorGeneric[lang]);
-                }
+                const { fieldErrors, errorMessage } = mapFieldErrors(result, CONTACT_FIELDS);
+                setErrors(fieldErrors);
+                setSubmitError(result.outboxFull ? t('formOutboxFull') : errorMessage || (Object.keys(fieldErrors).length === 0 ? t('formErrorGeneric') : null));
             }
         } catch (error) {
             console.error("Form submission error:", error);
-            setSubmitError(translations.formErrorGeneric[lang]);
+            setSubmitError(t('formErrorGeneric'));
         } finally {
             setIsSubmitting(false);
         }
@@ -896,16 +4096,17 @@ const ContactPage: React.FC<{ lang: Language, translations: any }> = ({ lang, tr
 
     return (
         <div className="page-container container">
-            <h1 className="page-title"><T content={translations.navContact} lang={lang} /></h1>
+            <PageMeta lang={lang} title={t('navContact')} description={t('contactSubtitle')} />
+            <h1 className="page-title">{t('navContact')}</h1>
             <div className="title-divider"></div>
-            <p className="section-subtitle"><T content={translations.contactSubtitle} lang={lang} /></p>
+            <p className="section-subtitle">{t('contactSubtitle')}</p>
             <div className="contact-content">
                 <div className="contact-info">
-                    <h3><T content={translations.contactInfoTitle} lang={lang} /></h3>
+                    <h3>{t('contactInfoTitle')}</h3>
                     <div className="contact-list">
                       <p className="contact-item"><span>An Nahadhah, Riyadh, Saudi Arabia</span><i className="icon-map"></i></p>
-                      <p className="contact-item"><span dir="ltr">+966 505 203 532</span><i className="icon-phone"></i></p>
-                      <p className="contact-item"><span dir="ltr">Customer@woe.sa</span><i className="icon-email"></i></p>
+                      <p className="contact-item"><a href={telLink(contact.phone)} dir="ltr">{formatPhoneNumber(contact.phone)}</a><i className="icon-phone"></i></p>
+                      <p className="contact-item"><a href={`mailto:${contact.email}`} dir="ltr">{contact.email}</a><i className="icon-email"></i></p>
                     </div>
                     {/* Placeholder for map */}
                     <div className="map-placeholder">
@@ -913,30 +4114,44 @@ const ContactPage: React.FC<{ lang: Language, translations: any }> = ({ lang, tr
                     </div>
                 </div>
                 <div className="contact-form">
-                    <h3><T content={translations.contactFormTitle} lang={lang} /></h3>
+                    <h3>{t('contactFormTitle')}</h3>
                     {isSubmitted ? (
                         <div className="form-success-message">
-                            <p><T content={translations.formSuccess} lang={lang} /></p>
+                            <p>{isQueued ? t('formQueued') : t('formSuccess')}</p>
                         </div>
                     ) : (
                         <form onSubmit={handleSubmit} noValidate>
                             <div className="form-group">
-                                <label htmlFor="name"><T content={translations.formName} lang={lang} /></label>
+                                <label htmlFor="name">{t('formName')}</label>
                                 <input type="text" id="name" name="name" value={formData.name} onChange={handleChange} className={errors.name ? 'error' : ''} required />
                                 {errors.name && <p className="error-message">{errors.name}</p>}
                             </div>
                             <div className="form-group">
-                                <label htmlFor="email"><T content={translations.formEmail} lang={lang} /></label>
+                                <label htmlFor="email">{t('formEmail')}</label>
                                 <input type="email" id="email" name="email" value={formData.email} onChange={handleChange} className={errors.email ? 'error' : ''} required />
                                 {errors.email && <p className="error-message">{errors.email}</p>}
                             </div>
                             <div className="form-group">
-                                <label htmlFor="message"><T content={translations.formMessage} lang={lang} /></label>
+                                <label htmlFor="phone">{t('formPhoneOptional')}</label>
+                                <input type="tel" id="phone" name="phone" dir="ltr" autoComplete="tel" value={formData.phone} onChange={handleChange} className={errors.phone ? 'error' : ''} aria-describedby="phone-hint" />
+                                <p className="form-hint" id="phone-hint">{t('formPhoneHint')}</p>
+                                {errors.phone && <p className="error-message">{errors.phone}</p>}
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="message">{t('formMessage')}</label>
                                 <textarea id="message" name="message" rows={5} value={formData.message} onChange={handleChange} className={errors.message ? 'error' : ''} required></textarea>
                                 {errors.message && <p className="error-message">{errors.message}</p>}
                             </div>
+                            <AttachmentsField
+                                id="attachments"
+                                attachments={attachments}
+                                onChange={setAttachments}
+                                error={errors.attachments}
+                                onError={(error) => setErrors(previous => ({ ...previous, attachments: error }))}
+                            />
+                            <HoneypotField id="contact-website" spam={spam} />
                             <button type="submit" className="cta-button" disabled={isSubmitting}>
-                                {isSubmitting ? <T content={translations.formSubmitting} lang={lang} /> : <T content={translations.formSubmit} lang={lang} />}
+                                {isSubmitting ? t('formSubmitting') : t('formSubmit')}
                             </button>
                             {submitError && <p className="error-message submit-error">{submitError}</p>}
                         </form>
@@ -947,130 +4162,81 @@ const ContactPage: React.FC<{ lang: Language, translations: any }> = ({ lang, tr
     );
 };
 
+// Shown instead of the site when data.json cannot be fetched or fails validation.
+const LoadErrorPage: React.FC<{ onRetry: () => void }> = ({ onRetry }) => {
+    const { t } = useT();
+    return (
+        <div className="page-container container load-error" role="alert">
+            <h1 className="page-title">{t('loadErrorTitle')}</h1>
+            <div className="title-divider"></div>
+            <p className="section-subtitle">{t('loadErrorText')}</p>
+            <button className="cta-button" onClick={onRetry}>{t('loadErrorRetry')}</button>
+        </div>
+    );
+};
+
+// Editing tools for data.json; split into their own chunk and never pre-rendered.
+const AdminPage = lazy(() => import('./admin.tsx'));
 
 // --- Main App Component ---
-const App = () => {
-  const [lang, setLang] = useState<Language>('ar');
-  const [data, setData] = useState<AppData | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  const translations = {
-    // Nav & General
-    navHome: { en: 'Home', ar: 'الرئيسية' },
-    navAbout: { en: 'About Us', ar: 'من نحن' },
-    navProducts: { en: 'Products', ar: 'المنتجات' },
-    navServices: { en: 'Services', ar: 'الخدمات' },
-    navFAQ: { en: 'FAQ', ar: 'الأسئلة الشائعة' },
-    navContact: { en: 'Contact Us', ar: 'تواصل معنا' },
-    heroButton: { en: 'Explore Our Products', ar: 'اكتشف منتجاتنا' },
-    productViewDetails: { en: 'View Details', ar: 'عرض التفاصيل' },
-    // Home Page
-    homeAboutTitle: { en: 'Wheel of Excellence', ar: 'عجلة التميز' },
-    homeAboutText: { en: 'Wheel of Excellence Trading Est. is a leading Saudi company specializing in medical equipment for people with disabilities. Contact us: +966 505 203 532 | Customer@woe.sa', ar: 'مؤسسة عجلة التميز التجارية هي شركة سعودية رائدة متخصصة في الأجهزة والمستلزمات الطبية للأشخاص ذوي الإعاقة. للتواصل: 966505203532+ | Customer@woe.sa'},
-    homeAboutButton: { en: 'Learn More', ar: 'اعرف المزيد' },
-    homeAboutImageAlt: { en: 'Technician adjusting a wheelchair', ar: 'فني يقوم بتعديل كرسي متحرك' },
-    homeProductsTitle: { en: 'Featured Products', ar: 'منتجاتنا المميزة' },
-    homeProductsSubtitle: { en: 'Discover our curated selection of high-performance and reliable mobility solutions.', ar: 'اكتشف مجموعتنا المختارة من حلول التنقل الموثوقة وعالية الأداء.' },
-    homeProductsButton: { en: 'View All Products', ar: 'عرض جميع المنتجات' },
-    homeServicesTitle: { en: 'Our Services', ar: 'خدماتنا' },
-    homePartnersTitle: { en: 'Our Partners', ar: 'شركاؤنا' },
-    // Products Page
-    productSearchPlaceholder: { en: 'Search by name, brand, or category...', ar: 'ابحث بالاسم، الماركة، أو القسم' },
-    productNoResults: { en: 'No products found matching your criteria.', ar: 'لم يتم العثور على منتجات تطابق بحثك.' },
-    productCategories: { en: 'Categories', ar: 'الأقسام' },
-    productCount: { en: `{count} Products`, ar: `عدد المنتجات: {count}` },
-    sortDefault: { en: 'Default Sorting', ar: 'الفرز بواسطة: الافتراضي' },
-    sortNameAsc: { en: 'Name: A-Z', ar: 'الاسم: أ-ي' },
-    sortNameDesc: { en: 'Name: Z-A', ar: 'الاسم: ي-أ' },
-    // Product Detail Page
-    productManufacturer: { en: 'Brand', ar: 'العلامة التجارية' },
-    productCategory: { en: 'Category', ar: 'القسم' },
-    productModel: { en: 'Model', ar: 'الموديل' },
-    productFeatures: { en: 'Features', ar: 'المميزات' },
-    productOrigin: { en: 'Country of Origin', ar: 'بلد الصنع' },
-    productContact: { en: 'Contact for Inquiry', ar: 'تواصل للاستفسار' },
-    relatedProducts: { en: 'Related Products', ar: 'منتجات ذات صلة' },
-    // About Page
-    aboutText1: { en: 'Established with a vision to empower individuals with mobility challenges, Wheel of Excellence has become a trusted name in the healthcare sector across Saudi Arabia and the Middle East.', ar: 'تأسست مؤسسة عجلة التميز برؤية لتمكين الأفراد الذين يواجهون تحديات في التنقل، وأصبحت اسمًا موثوقًا به في قطاع الرعاية الصحية في جميع أنحاء المملكة العربية السعودية والشرق الأوسط.' },
-    aboutText2: { en: 'Our team of experts carefully selects products from world-renowned manufacturers, ensuring that we offer only the best in terms of quality, durability, and innovation. We work closely with healthcare professionals and end-users to provide tailored solutions that meet specific needs.', ar: 'يقوم فريق خبرائنا باختيار المنتجات بعناية من أشهر المصنعين العالميين، مما يضمن أننا نقدم الأفضل فقط من حيث الجودة والمتانة والابتكار. نحن نعمل بشكل وثيق مع المتخصصين في الرعاية الصحية والمستخدمين النهائيين لتقديم حلول مخصصة تلبي الاحتياجات المحددة.' },
-    aboutVisionTitle: { en: 'Our Vision', ar: 'رؤيتنا' },
-    aboutVisionText: { en: 'To be the leading provider of mobility solutions in the Middle East, enhancing independence and quality of life for all.', ar: 'أن نكون المزود الرائد لحلول التنقل في الشرق الأوسط، معززين بذلك استقلالية وجودة حياة الجميع.' },
-    aboutMissionTitle: { en: 'Our Mission', ar: 'مهمتنا' },
-    aboutMissionText: { en: 'To supply the highest quality medical equipment, offer expert consultation, and provide exceptional after-sales service to our valued customers.', ar: 'توفير أجود المعدات الطبية، وتقديم استشارات متخصصة، وخدمة ما بعد البيع استثنائية لعملائنا الكرام.' },
-    aboutImageAlt: { en: 'A person using a custom-fitted wheelchair outdoors', ar: 'شخص يستخدم كرسيًا متحركًا مخصصًا في الهواء الطلق' },
-    // Services Page
-    servicesSubtitle: { en: 'We offer a comprehensive range of services to ensure your mobility equipment meets your needs and remains in perfect condition.', ar: 'نقدم مجموعة شاملة من الخدمات لضمان أن معدات التنقل الخاصة بك تلبي احتياجاتك وتبقى في حالة ممتازة.' },
-    // Contact Page
-    contactSubtitle: { en: 'We would love to hear from you! Whether you have a question about our products, need assistance, or want to provide feedback, please get in touch.', ar: 'يسعدنا أن نسمع منك! سواء كان لديك سؤال حول منتجاتنا، أو تحتاج إلى مساعدة، أو ترغب في تقديم ملاحظات، يرجى التواصل معنا.' },
-    contactInfoTitle: { en: 'Our Information', ar: 'معلوماتنا' },
-    contactFormTitle: { en: 'Send us a Message', ar: 'أرسل لنا رسالة' },
-    // Form
-    formName: { en: 'Your Name', ar: 'الاسم' },
-    formEmail: { en: 'Your Email', ar: 'البريد الإلكتروني' },
-    formMessage: { en: 'Your Message', ar: 'رسالتك' },
-    formSubmit: { en: 'Send Message', ar: 'إرسال' },
-    formSubmitting: { en: 'Sending...', ar: 'جار الإرسال...' },
-    formErrorName: { en: 'Name is required.', ar: 'الاسم مطلوب.' },
-    formErrorEmail: { en: 'Email is required.', ar: 'البريد الإلكتروني مطلوب.' },
-    formErrorEmailInvalid: { en: 'Please enter a valid email.', ar: 'الرجاء إدخال بريد إلكتروني صالح.' },
-    formErrorMessage: { en: 'Message is required.', ar: 'الرسالة مطلوبة.' },
-    formErrorGeneric: { en: 'An error occurred while sending your message. Please try again later.', ar: 'حدث خطأ أثناء إرسال رسالتك. يرجى المحاولة مرة أخرى لاحقاً.' },
-    formSuccess: { en: 'Thank you for contacting us! We will get back to you soon.', ar: 'شكرا للتواصل معنا سيتم الرد معك في اقرب وقت' },
-    // Footer
-    footerSlogan: { en: 'Advanced solutions for a better life.', ar: 'حلول متقدمة لحياة أفضل.' },
-    footerLinks: { en: 'Quick Links', ar: 'روابط سريعة' },
-    footerSocial: { en: 'Follow Us', ar: 'تابعنا' },
-    footerRights: { en: 'Wheel of Excellence Trading Est. All rights reserved.', ar: 'مؤسسة عجلة التميز التجارية. جميع الحقوق محفوظة.' },
-    // Categories
-    categoryAll: { en: 'All Categories', ar: 'جميع الأقسام' },
-    categoryFeatured: { en: 'Featured', ar: 'المميزة' },
-    categorySportLightweight: { en: 'Ultralight Wheelchairs', ar: 'كراسي متحركة فائقة الخفة' },
-    categoryLightweight: { en: 'Lightweight', ar: 'كراسي خفيفة الوزن' },
-    categoryElectric: { en: 'Electric Wheelchairs', ar: 'كراسي متحركة كهربائية' },
-    categoryChildren: { en: 'Children\'s Wheelchairs', ar: 'كراسي أطفال' },
-    categoryStandard: { en: 'Standard Wheelchairs', ar: 'كراسي متحركة عادية' },
-    categoryBathroom: { en: 'Bathroom Chairs & Accessories', ar: 'كراسي و لوازم حمام' },
-    categoryAccessories: { en: 'Accessories', ar: 'مستلزمات طبية' },
-    categoryMovable: { en: 'Manual Wheelchairs', ar: 'كراسي متحركة عادية' },
-    categoryMedicalBeds: { en: 'Beds & Accessories', ar: 'أسرة طبية و ملحقاتها' },
-    categoryMattresses: { en: 'Medical & Air Mattresses', ar: 'مراتب طبية و هوائية' },
-    categoryWalkers: { en: 'Walkers & Crutches', ar: 'مشايات و عكاكيز' },
-    categoryDiapers: { en: 'Diapers & Bed Pads for Seniors', ar: 'حفائض و مفارش لكبار السن' },
-    categoryCushions: { en: 'Cushions & Backrests', ar: 'وسائل الراحة و الاسترخاء' },
-    categoryRespiratory: { en: 'Respiratory & Oxygen Cylinders', ar: 'أجهزة تنفس و اسطوانات أكسجين' },
-    categoryDiagnostic: { en: 'Specialized Hospital Devices', ar: 'أجهزة المستشفيات التخصصية' },
-    categoryFurniture: { en: 'Medical Furniture', ar: 'الأثاث الطبي' },
-    categoryConsumables: { en: 'Medical Consumables', ar: 'مستهلكات طبية' },
-    // ARIA Labels & Accessibility
-    ariaHomepage: { en: 'Go to homepage', ar: 'الانتقال إلى الصفحة الرئيسية' },
-    ariaSwitchLang: { en: 'Switch to Arabic', ar: 'التحويل إلى اللغة العربية' },
-    ariaOpenMenu: { en: 'Open navigation menu', ar: 'فتح قائمة التنقل' },
-    ariaCloseMenu: { en: 'Close navigation menu', ar: 'إغلاق قائمة التنقل' },
-    ariaViewImage: { en: 'View image', ar: 'عرض الصورة' },
-    thumbnailAlt: { en: 'Product thumbnail', ar: 'صورة مصغرة للمنتج' },
-    ariaContactForPrice: { en: 'Contact us for product pricing', ar: 'تواصل معنا لمعرفة سعر المنتج' },
-    ariaFollowX: { en: 'Follow us on X', ar: 'تابعنا على منصة X' },
-    ariaFollowInstagram: { en: 'Follow us on Instagram', ar: 'تابعنا على انستغرام' },
-    ariaFollowSnapchat: { en: 'Follow us on Snapchat', ar: 'تابعنا على سناب شات' },
-    ariaFollowWhatsApp: { en: 'Contact us on WhatsApp', ar: 'تواصل معنا عبر واتساب' },
-    ariaScrollToTop: { en: 'Scroll to top of page', ar: 'الانتقال إلى أعلى الصفحة' },
-    ariaGoToSlide: { en: 'Go to slide', ar: 'الانتقال إلى الشريحة' },
-    ariaProductCategories: { en: 'Product categories', ar: 'فئات المنتجات' },
-    ariaSadFace: { en: 'Sad face emoji', ar: 'وجه حزين' },
-    ariaListView: { en: 'Switch to list view', ar: 'التحويل إلى عرض القائمة' },
-    ariaGridView: { en: 'Switch to grid view', ar: 'التحويل إلى عرض الشبكة' },
-    ariaSortBy: { en: 'Sort by', ar: 'الفرز بواسطة' },
-};
+const isQuoteItemList = (value: unknown): value is QuoteItem[] =>
+  Array.isArray(value) && value.every(item =>
+    typeof item?.productId === 'string' && typeof item.quantity === 'number' && typeof item.note === 'string'
+    && (item.options === undefined || (typeof item.options === 'object' && item.options !== null))
+  );
+
+export const App: React.FC<{ initialData?: AppData }> = ({ initialData }) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const lang = getPathLanguage(location.pathname) ?? DEFAULT_LANGUAGE;
+  const needsLanguageRedirect = !getPathLanguage(location.pathname) || new URLSearchParams(location.search).has('lang');
+  const setLang = (nextLang: Language) => {
+    savePreferredLanguage(nextLang);
+    navigate(`${localizePath(nextLang, stripPathLanguage(location.pathname))}${location.search}`);
+  };
+  const [data, setData] = useState<AppData | null>(initialData ?? null);
+  const [loading, setLoading] = useState(!initialData);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const compare: CompareSelection = {
+    ids: compareIds,
+    toggle: (id) => setCompareIds(prev =>
+      prev.includes(id) ? prev.filter(existing => existing !== id) : [...prev, id].slice(0, MAX_COMPARE_ITEMS)
+    ),
+    clear: () => setCompareIds([]),
+  };
+
+  const searchIndex = useMemo(() => data ? buildSearchIndex(data.products) : null, [data]);
+  const categoryTree = useMemo(() => data ? buildCategoryTree(data.categories) : null, [data]);
+  const i18n = useMemo(() => ({ lang, t: createTranslate(lang) }), [lang]);
+
+  const [quoteItems, setQuoteItems] = useLocalStorageState<QuoteItem[]>('woe-quote', [], isQuoteItemList);
+
+  const quote: QuoteBasket = {
+    items: quoteItems,
+    add: (productId, quantity, note, options) => {
+      const key = quoteItemKey({ productId, options });
+      setQuoteItems(prev =>
+        prev.some(item => quoteItemKey(item) === key)
+          ? prev.map(item => quoteItemKey(item) === key ? { ...item, quantity, note } : item)
+          : [...prev, { productId, quantity, note, options }]
+      );
+    },
+    update: (key, changes) => setQuoteItems(prev =>
+      prev.map(item => quoteItemKey(item) === key ? { ...item, ...changes } : item)
+    ),
+    remove: (key) => setQuoteItems(prev => prev.filter(item => quoteItemKey(item) !== key)),
+    clear: () => setQuoteItems([]),
+  };
 
   useEffect(() => {
+    if (initialData) {
+      return;
+    }
     const fetchData = async () => {
       try {
-        const response = await fetch('./data.json');
-        if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        const jsonData = await response.json();
-        setData(jsonData);
+        setData(await loadAppData());
       } catch (error) {
         console.error("Could not fetch data:", error);
       } finally {
@@ -1078,7 +4244,12 @@ const App = () => {
       }
     };
     fetchData();
-  }, []);
+  }, [loadAttempt]);
+
+  const retryLoad = () => {
+    setLoading(true);
+    setLoadAttempt(attempt => attempt + 1);
+  };
 
   useEffect(() => {
     const splashScreen = document.getElementById('splash-screen');
@@ -1098,48 +4269,97 @@ const App = () => {
 
   useEffect(() => {
     document.documentElement.lang = lang;
-    document.body.className = lang === 'ar' ? 'rtl' : '';
+    document.documentElement.dir = LOCALES[lang].dir;
+    document.body.className = isRtl(lang) ? 'rtl' : '';
   }, [lang]);
   
-  if (loading || !data) {
+  if (needsLanguageRedirect) {
+    return <LanguageRedirect />;
+  }
+
+  if (loading) {
     return null; 
   }
 
+  if (!data) {
+    return (
+      <I18nContext.Provider value={i18n}>
+        <LoadErrorPage onRetry={retryLoad} />
+      </I18nContext.Provider>
+    );
+  }
+
   return (
-    <HashRouter>
+    <I18nContext.Provider value={i18n}>
         <ScrollToTop />
         <Header
             lang={lang}
             setLang={setLang}
-            translations={translations}
+            quoteCount={quote.items.length}
+            categoryTree={categoryTree}
         />
         <main>
             <Routes>
-                <Route path="/" element={<HomePage data={data} lang={lang} translations={translations} />} />
-                <Route path="/about" element={<AboutPage lang={lang} translations={translations} />} />
-                <Route path="/products" element={<ProductsPage products={data.products} lang={lang} translations={translations} />} />
-                <Route path="/products/:id" element={<ProductDetailPage lang={lang} translations={translations} allProducts={data.products} />} />
-                <Route path="/services" element={<ServicesPage services={data.services} lang={lang} translations={translations} />} />
-                <Route path="/faq" element={<FAQPage faqs={data.faq} lang={lang} translations={translations} />} />
-                <Route path="/contact" element={<ContactPage lang={lang} translations={translations} />} />
+              <Route path={localizePath(lang, '/')}>
+                <Route index element={<HomePage data={data} lang={lang} />} />
+                <Route path="about" element={<AboutPage lang={lang} />} />
+                <Route path="products" element={<ProductsPage products={data.products} specDefinitions={data.specDefinitions} searchIndex={searchIndex} categoryTree={categoryTree} compare={compare} lang={lang} />} />
+                <Route path="products/category/:slug" element={<CategoryPage products={data.products} categoryTree={categoryTree} lang={lang} />} />
+                <Route path="products/:id" element={<ProductDetailPage lang={lang} contact={data.contact} allProducts={data.products} specDefinitions={data.specDefinitions} categoryTree={categoryTree} compare={compare} quote={quote} />} />
+                <Route path="quote" element={<QuotePage lang={lang} allProducts={data.products} quote={quote} />} />
+                <Route path="compare" element={<ComparePage lang={lang} allProducts={data.products} specDefinitions={data.specDefinitions} />} />
+                <Route path="services" element={<ServicesPage services={data.services} lang={lang} />} />
+                <Route path="services/:id/book" element={<BookingPage services={data.services} products={data.products} booking={data.booking} lang={lang} />} />
+                {ticketSource && <Route path="track" element={<TrackPage source={ticketSource} lang={lang} />} />}
+                <Route path="assistant" element={<AssistantPage data={data} model={assistantModel} quote={quote} lang={lang} />} />
+                <Route path="faq" element={<FAQPage faqs={data.faq} lang={lang} />} />
+                <Route path="contact" element={<ContactPage contact={data.contact} lang={lang} />} />
+                <Route path="admin" element={<Suspense fallback={null}><AdminPage lang={lang} /></Suspense>} />
+                <Route path="*" element={<Navigate to={localizePath(lang, '/')} replace />} />
+              </Route>
             </Routes>
         </main>
         <Footer
             lang={lang}
             setLang={setLang}
-            translations={translations}
+            contact={data.contact}
         />
-        <ScrollToTopButton translations={translations} lang={lang} />
-    </HashRouter>
+        <CompareTray compare={compare} products={data.products} lang={lang} />
+        <ContactWidget contact={data.contact} lang={lang} />
+        <OfflineStatus />
+        <ScrollToTopButton lang={lang} />
+    </I18nContext.Provider>
   );
 };
 
-const rootElement = document.getElementById('root');
-if (rootElement) {
-    const root = ReactDOM.createRoot(rootElement);
-    root.render(
-      <React.StrictMode>
-        <App />
-      </React.StrictMode>
-    );
-}
\ No newline at end of file
+// Skipped when the build imports this module to pre-render pages in Node.
+if (typeof document !== 'undefined') {
+    // Only production builds have dist/sw.js (scripts/generate-service-worker.ts).
+    if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+        window.addEventListener('load', () => {
+            navigator.serviceWorker.register('/sw.js').catch(error => console.error("Could not register the service worker:", error));
+        });
+    }
+    const rootElement = document.getElementById('root');
+    if (rootElement) {
+        const renderApp = (initialData?: AppData) => (
+          <React.StrictMode>
+            <BrowserRouter>
+              <App initialData={initialData} />
+            </BrowserRouter>
+          </React.StrictMode>
+        );
+
+        // Pre-rendered pages already contain the markup, so hydrate once the same data is loaded.
+        if (rootElement.hasChildNodes()) {
+            loadAppData()
+                .then(data => ReactDOM.hydrateRoot(rootElement, renderApp(data)))
+                .catch(error => {
+                    console.error("Could not fetch data:", error);
+                    ReactDOM.createRoot(rootElement).render(renderApp());
+                });
+        } else {
+            ReactDOM.createRoot(rootElement).render(renderApp());
+        }
+    }
+}
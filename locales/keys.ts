@@ -0,0 +1,346 @@
+// Generated by scripts/generate-locale-types.ts from locales/en.json. Do not edit by hand.
+
+export type TranslationKey =
+  | 'navHome'
+  | 'navAbout'
+  | 'navProducts'
+  | 'navServices'
+  | 'navFAQ'
+  | 'navContact'
+  | 'navTrack'
+  | 'navAssistant'
+  | 'heroButton'
+  | 'heroCarouselLabel'
+  | 'heroPrevious'
+  | 'heroNext'
+  | 'heroSlideLabel'
+  | 'heroPause'
+  | 'heroPlay'
+  | 'productViewDetails'
+  | 'metaHomeTitle'
+  | 'metaHomeDescription'
+  | 'metaFaqDescription'
+  | 'metaQuoteDescription'
+  | 'homeAboutTitle'
+  | 'homeAboutText'
+  | 'homeAboutButton'
+  | 'homeAboutImageAlt'
+  | 'homeProductsTitle'
+  | 'homeProductsSubtitle'
+  | 'homeProductsButton'
+  | 'homeServicesTitle'
+  | 'homePartnersTitle'
+  | 'productSearchPlaceholder'
+  | 'productNoResults'
+  | 'productNotFound'
+  | 'productBackToList'
+  | 'productCategories'
+  | 'productCount'
+  | 'sortDefault'
+  | 'sortRelevance'
+  | 'sortNameAsc'
+  | 'sortNameDesc'
+  | 'sortPriceAsc'
+  | 'sortPriceDesc'
+  | 'productFilters'
+  | 'filterClear'
+  | 'filterMin'
+  | 'filterMax'
+  | 'filterInStock'
+  | 'filterPrice'
+  | 'productManufacturer'
+  | 'productCategory'
+  | 'productModel'
+  | 'productWarranty'
+  | 'warrantyMonths'
+  | 'priceAmount'
+  | 'priceVatIncluded'
+  | 'priceOnRequest'
+  | 'availabilityInStock'
+  | 'availabilityLowStock'
+  | 'availabilityOutOfStock'
+  | 'availabilityBackorder'
+  | 'availabilityLeadTime'
+  | 'productFeatures'
+  | 'productSpecs'
+  | 'specYes'
+  | 'specNo'
+  | 'productOrigin'
+  | 'productContact'
+  | 'contactWhatsApp'
+  | 'contactCall'
+  | 'relatedProducts'
+  | 'quoteTitle'
+  | 'quoteAdd'
+  | 'quoteUpdate'
+  | 'quoteQuantity'
+  | 'quoteNote'
+  | 'quoteNotePlaceholder'
+  | 'quoteInBasket'
+  | 'quoteReview'
+  | 'quoteEmpty'
+  | 'quoteFormTitle'
+  | 'quoteMessage'
+  | 'quoteSubmit'
+  | 'quoteSuccess'
+  | 'compareAdd'
+  | 'compareSelected'
+  | 'compareRemove'
+  | 'compareClear'
+  | 'compareNow'
+  | 'compareHint'
+  | 'compareLimit'
+  | 'compareTitle'
+  | 'compareSubtitle'
+  | 'compareEmpty'
+  | 'compareLegend'
+  | 'aboutText1'
+  | 'aboutText2'
+  | 'aboutVisionTitle'
+  | 'aboutVisionText'
+  | 'aboutMissionTitle'
+  | 'aboutMissionText'
+  | 'aboutImageAlt'
+  | 'servicesSubtitle'
+  | 'bookingBookButton'
+  | 'bookingTitle'
+  | 'bookingIntro'
+  | 'bookingStepOf'
+  | 'bookingStepChair'
+  | 'bookingStepIssue'
+  | 'bookingStepHandover'
+  | 'bookingStepSchedule'
+  | 'bookingStepContact'
+  | 'bookingStepReview'
+  | 'bookingMake'
+  | 'bookingModel'
+  | 'bookingMakeHint'
+  | 'bookingIssue'
+  | 'bookingIssuePlaceholder'
+  | 'bookingPhotos'
+  | 'bookingRemovePhoto'
+  | 'bookingPickup'
+  | 'bookingDropoff'
+  | 'bookingAddress'
+  | 'bookingWorkshopAddress'
+  | 'bookingDate'
+  | 'bookingTime'
+  | 'formPhone'
+  | 'formEmailOptional'
+  | 'bookingBack'
+  | 'bookingNext'
+  | 'bookingSubmit'
+  | 'bookingConfirmedTitle'
+  | 'bookingConfirmedText'
+  | 'bookingErrorMake'
+  | 'bookingErrorIssue'
+  | 'bookingErrorAddress'
+  | 'bookingErrorDate'
+  | 'bookingErrorTime'
+  | 'bookingErrorPhone'
+  | 'bookingErrorPhoto'
+  | 'bookingErrorPhotoLimit'
+  | 'trackTitle'
+  | 'trackIntro'
+  | 'metaTrackDescription'
+  | 'trackReference'
+  | 'trackSubmit'
+  | 'trackChecking'
+  | 'trackErrorReference'
+  | 'trackNotFound'
+  | 'trackUnavailable'
+  | 'trackResultTitle'
+  | 'trackEstimatedReady'
+  | 'trackStepDone'
+  | 'trackStepCurrent'
+  | 'trackStepPending'
+  | 'ticketStatusReceived'
+  | 'ticketStatusDiagnosed'
+  | 'ticketStatusAwaitingParts'
+  | 'ticketStatusReady'
+  | 'ticketStatusDelivered'
+  | 'assistantTitle'
+  | 'assistantIntro'
+  | 'metaAssistantDescription'
+  | 'assistantPrompt'
+  | 'assistantExamples'
+  | 'assistantExampleFolding'
+  | 'assistantExampleChildren'
+  | 'assistantExampleBathroom'
+  | 'assistantInputLabel'
+  | 'assistantSend'
+  | 'assistantThinking'
+  | 'assistantYou'
+  | 'assistantName'
+  | 'assistantSuggestions'
+  | 'assistantStubFound'
+  | 'assistantStubNotFound'
+  | 'assistantHandoffQuote'
+  | 'assistantHandoffContact'
+  | 'assistantContactMessage'
+  | 'assistantClear'
+  | 'assistantDisclaimer'
+  | 'contactSubtitle'
+  | 'contactInfoTitle'
+  | 'contactFormTitle'
+  | 'formName'
+  | 'formEmail'
+  | 'formMessage'
+  | 'formPhoneOptional'
+  | 'formPhoneHint'
+  | 'formAttachments'
+  | 'formRemoveAttachment'
+  | 'formHoneypot'
+  | 'formSubmit'
+  | 'formSubmitting'
+  | 'formErrorName'
+  | 'formErrorEmail'
+  | 'formErrorEmailInvalid'
+  | 'formErrorPhoneInvalid'
+  | 'formErrorAttachmentType'
+  | 'formErrorAttachmentSize'
+  | 'formErrorAttachmentLimit'
+  | 'formErrorMessage'
+  | 'formErrorGeneric'
+  | 'formSuccess'
+  | 'formQueued'
+  | 'formOutboxFull'
+  | 'loadErrorTitle'
+  | 'loadErrorText'
+  | 'loadErrorRetry'
+  | 'adminTitle'
+  | 'adminIntro'
+  | 'adminLoading'
+  | 'adminServerError'
+  | 'adminPartners'
+  | 'adminSlides'
+  | 'adminAdd'
+  | 'adminDelete'
+  | 'adminConfirmDelete'
+  | 'adminMoveUp'
+  | 'adminMoveDown'
+  | 'adminUntitled'
+  | 'adminSelectEntry'
+  | 'adminAddImage'
+  | 'adminAddFeature'
+  | 'adminRemove'
+  | 'adminNone'
+  | 'adminIssues'
+  | 'adminUnsaved'
+  | 'adminDiscard'
+  | 'adminReview'
+  | 'adminChecking'
+  | 'adminReviewTitle'
+  | 'adminDiffSkipped'
+  | 'adminNoChanges'
+  | 'adminBackToEditor'
+  | 'adminSave'
+  | 'adminSaving'
+  | 'adminSaved'
+  | 'adminSaveError'
+  | 'adminConflict'
+  | 'adminReload'
+  | 'adminFieldId'
+  | 'adminFieldName'
+  | 'adminFieldTitle'
+  | 'adminFieldSubtitle'
+  | 'adminFieldCtaLink'
+  | 'adminFieldCtaText'
+  | 'adminFieldDescription'
+  | 'adminFieldQuestion'
+  | 'adminFieldAnswer'
+  | 'adminFieldImage'
+  | 'adminFieldOtherImages'
+  | 'adminFieldVideo'
+  | 'adminFieldSpinImages'
+  | 'adminFieldLogo'
+  | 'adminFieldMainCategory'
+  | 'adminFieldSubCategory'
+  | 'adminFieldCategoryLabel'
+  | 'adminFieldFeatured'
+  | 'adminFieldPrice'
+  | 'adminFieldAvailability'
+  | 'adminFieldLeadTime'
+  | 'adminFieldWarranty'
+  | 'footerSlogan'
+  | 'footerLinks'
+  | 'footerSocial'
+  | 'footerRights'
+  | 'categoryAll'
+  | 'categoryFeatured'
+  | 'categoryViewAll'
+  | 'categoryBrowse'
+  | 'categoryEmpty'
+  | 'ariaHomepage'
+  | 'ariaLanguageMenu'
+  | 'ariaOpenMenu'
+  | 'ariaCloseMenu'
+  | 'ariaViewImage'
+  | 'thumbnailAlt'
+  | 'galleryLabel'
+  | 'galleryPrevious'
+  | 'galleryNext'
+  | 'galleryOpen'
+  | 'galleryClose'
+  | 'galleryZoomIn'
+  | 'galleryZoomOut'
+  | 'galleryPosition'
+  | 'galleryVideo'
+  | 'gallerySpin'
+  | 'gallerySpinHint'
+  | 'ariaContactForPrice'
+  | 'ariaFollowX'
+  | 'ariaFollowInstagram'
+  | 'ariaFollowSnapchat'
+  | 'ariaFollowWhatsApp'
+  | 'contactWidgetOpen'
+  | 'contactWidgetClose'
+  | 'ariaScrollToTop'
+  | 'ariaGoToSlide'
+  | 'ariaProductCategories'
+  | 'ariaSubcategories'
+  | 'ariaBreadcrumbs'
+  | 'ariaSadFace'
+  | 'ariaListView'
+  | 'ariaGridView'
+  | 'ariaSortBy'
+  | 'ariaQuoteBasket'
+  | 'ariaCompareTray'
+  | 'offlineNotice'
+  | 'outboxSent';
+
+// Placeholder names each message expects in its args.
+export interface TranslationPlaceholders {
+  heroSlideLabel: 'count' | 'index';
+  productCount: 'count';
+  warrantyMonths: 'count';
+  priceAmount: 'amount';
+  priceVatIncluded: 'rate';
+  availabilityLeadTime: 'count';
+  quoteInBasket: 'count';
+  compareNow: 'count';
+  compareLimit: 'count';
+  bookingTitle: 'service';
+  bookingStepOf: 'count' | 'index';
+  bookingPhotos: 'max';
+  bookingRemovePhoto: 'index';
+  bookingConfirmedText: 'date' | 'reference' | 'time';
+  bookingErrorPhoto: 'name';
+  bookingErrorPhotoLimit: 'max';
+  trackResultTitle: 'reference';
+  trackEstimatedReady: 'date';
+  assistantContactMessage: 'question';
+  formAttachments: 'max' | 'size';
+  formRemoveAttachment: 'name';
+  formErrorAttachmentType: 'name';
+  formErrorAttachmentSize: 'name' | 'size';
+  formErrorAttachmentLimit: 'max';
+  adminConfirmDelete: 'name';
+  adminIssues: 'count';
+  adminDiffSkipped: 'count';
+  categoryViewAll: 'count';
+  galleryPosition: 'count' | 'index';
+  ariaSubcategories: 'name';
+  ariaQuoteBasket: 'count';
+  outboxSent: 'count';
+}
@@ -0,0 +1,27 @@
+// Every locale the site can be shown in. The first entry is the default language.
+// `fallback` lists the locales whose text is shown, in order, when a message or a
+// data.json field has no translation; English is always the last resort.
+// `aliases` are other language subtags browsers may report for the same language.
+// `complete` locales must translate every UI message (enforced by check:locales).
+export interface LocaleDefinition {
+  nativeName: string;
+  englishName: string;
+  dir: 'ltr' | 'rtl';
+  ogLocale: string;
+  fallback: string[];
+  aliases?: string[];
+  complete?: boolean;
+}
+
+export const LOCALES = {
+  ar: { nativeName: 'العربية', englishName: 'Arabic', dir: 'rtl', ogLocale: 'ar_SA', fallback: ['en'], complete: true },
+  en: { nativeName: 'English', englishName: 'English', dir: 'ltr', ogLocale: 'en_US', fallback: [], complete: true },
+  ur: { nativeName: 'اردو', englishName: 'Urdu', dir: 'rtl', ogLocale: 'ur_PK', fallback: ['en'] },
+  hi: { nativeName: 'हिन्दी', englishName: 'Hindi', dir: 'ltr', ogLocale: 'hi_IN', fallback: ['en'] },
+  fil: { nativeName: 'Filipino', englishName: 'Filipino', dir: 'ltr', ogLocale: 'fil_PH', fallback: ['en'], aliases: ['tl'] },
+  bn: { nativeName: 'বাংলা', englishName: 'Bengali', dir: 'ltr', ogLocale: 'bn_BD', fallback: ['en'] },
+} satisfies Record<string, LocaleDefinition>;
+
+export type Language = keyof typeof LOCALES;
+
+export const SOURCE_LANGUAGE: Language = 'en';
@@ -0,0 +1,37 @@
+// Looks up UI messages and data.json translations for a language. Shared by the
+// site and the assistant server, which words the catalog the way the site does.
+// UI strings live in locales/<lang>.json; run `npm run locales:types` after adding a key.
+import en from './en.json';
+import ar from './ar.json';
+import ur from './ur.json';
+import hi from './hi.json';
+import fil from './fil.json';
+import bn from './bn.json';
+import type { LocalizedString } from '../data-schema.ts';
+import type { TranslationKey, TranslationPlaceholders } from './keys.ts';
+import { LOCALES, SOURCE_LANGUAGE, type Language } from './registry.ts';
+
+const catalogs: Record<Language, Partial<Record<TranslationKey, string>>> = { en, ar, ur, hi, fil, bn };
+
+// The language itself, then its declared fallbacks, then English.
+export const getLanguageChain = (lang: Language): Language[] =>
+  [...new Set([lang, ...LOCALES[lang].fallback as Language[], SOURCE_LANGUAGE])];
+
+// Picks the best available translation of a data.json field.
+export const localize = (value: LocalizedString, lang: Language) =>
+  getLanguageChain(lang).map(candidate => value[candidate]).find(text => text) ?? value.en;
+
+export const interpolate = (text: string, args?: Record<string, string | number>) =>
+  args ? text.replace(/{(\w+)}/g, (match, name) => name in args ? String(args[name]) : match) : text;
+
+// Keys with placeholders must be called with exactly those arguments, e.g. t('productCount', { count }).
+export type Translate = <K extends TranslationKey>(
+  key: K,
+  ...args: K extends keyof TranslationPlaceholders ? [Record<TranslationPlaceholders[K], string | number>] : []
+) => string;
+
+export const createTranslate = (lang: Language): Translate =>
+  (key, ...args) => {
+    const text = getLanguageChain(lang).map(candidate => catalogs[candidate][key]).find(message => message);
+    return interpolate(text ?? key, args[0]);
+  };
@@ -0,0 +1,52 @@
+// How products' specs, prices and stock are worded for customers. Shared by the
+// site and the assistant server, so the assistant quotes what the pages show.
+import type { Availability, Product, ProductSpecs, SpecDefinition, SpecKey } from './data-schema.ts';
+import type { TranslationKey } from './locales/keys.ts';
+import type { Language } from './locales/registry.ts';
+import { localize, type Translate } from './locales/translate.ts';
+
+// --- Specs ---
+export const getSpecNumbers = (specs: ProductSpecs | undefined, key: SpecKey): number[] => {
+  const value = specs?.[key];
+  if (Array.isArray(value)) return value;
+  return typeof value === 'number' ? [value] : [];
+};
+
+export const formatSpecValue = (definition: SpecDefinition, specs: ProductSpecs, lang: Language, t: Translate): string => {
+  const value = specs[definition.key];
+  switch (definition.type) {
+    case 'number': {
+      const numbers = getSpecNumbers(specs, definition.key);
+      const text = numbers.length > 1 ? `${Math.min(...numbers)}–${Math.max(...numbers)}` : String(numbers[0]);
+      return definition.unit ? `${text} ${localize(definition.unit, lang)}` : text;
+    }
+    case 'enum': {
+      const option = definition.options?.find(option => option.value === value);
+      return option ? localize(option.label, lang) : String(value);
+    }
+    case 'boolean':
+      return t(value ? 'specYes' : 'specNo');
+  }
+};
+
+// --- Pricing ---
+// Saudi VAT. Prices in data.json exclude it; customers are always shown the VAT-inclusive price.
+export const VAT_RATE = 0.15;
+
+export const AVAILABILITY_LABELS: Record<Availability, TranslationKey> = {
+  inStock: 'availabilityInStock',
+  lowStock: 'availabilityLowStock',
+  outOfStock: 'availabilityOutOfStock',
+  backorder: 'availabilityBackorder',
+};
+
+// The VAT-inclusive price, or undefined when the product has none or it is on request.
+export const getDisplayPrice = (product: Product) =>
+  product.price !== undefined && !product.priceOnRequest ? product.price * (1 + VAT_RATE) : undefined;
+
+// Formatted by hand rather than with Intl so pre-rendered and hydrated markup match.
+export const formatAmount = (amount: number) => {
+  const [whole, fraction] = amount.toFixed(2).split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return fraction === '00' ? grouped : `${grouped}.${fraction}`;
+};
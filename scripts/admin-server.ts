@@ -0,0 +1,121 @@
+// Local stand-in for a content backend. Serves data.json to the /admin pages and
+// writes edits back after validating them. Run `npm run admin` alongside
+// `npm run dev`; Vite proxies /api to this server.
+//
+//   GET  /api/data          -> { data, version }
+//   POST /api/data/preview  { data, version } -> { issues, diff, conflict }
+//   PUT  /api/data          { data, version } -> { version } | 409 | 422
+import http from 'node:http';
+import { validateAppData, type AppData } from '../data-schema.ts';
+import { formatAppData, readDataFile, writeDataFile } from './data-file.ts';
+import { readBody, sendJson } from './http-json.ts';
+import { lintAppData } from './lint-data.ts';
+
+const PORT = Number(process.env.ADMIN_PORT) || 3001;
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const DIFF_CONTEXT_LINES = 3;
+
+interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Line diff via longest common subsequence, trimmed to the changed lines plus a
+// little context. data.json is small enough for the quadratic table.
+const diffLines = (before: string, after: string): (DiffLine | { type: 'skip'; count: number })[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+
+  const nearChange = lines.map((_, index) =>
+    lines.slice(Math.max(0, index - DIFF_CONTEXT_LINES), index + DIFF_CONTEXT_LINES + 1).some(line => line.type !== 'same')
+  );
+  const result: (DiffLine | { type: 'skip'; count: number })[] = [];
+  lines.forEach((line, index) => {
+    if (nearChange[index]) {
+      result.push(line);
+      return;
+    }
+    const last = result[result.length - 1];
+    if (last?.type === 'skip') {
+      last.count++;
+    } else {
+      result.push({ type: 'skip', count: 1 });
+    }
+  });
+  return result;
+};
+
+const checkData = async (data: unknown) => {
+  const issues = validateAppData(data);
+  return issues.length > 0 ? issues : lintAppData(data as AppData);
+};
+
+const server = http.createServer(async (request, response) => {
+  try {
+    if (request.url === '/api/data' && request.method === 'GET') {
+      const { raw, version } = await readDataFile();
+      sendJson(response, 200, { data: raw, version });
+      return;
+    }
+
+    if (request.url === '/api/data/preview' && request.method === 'POST') {
+      const { data, version } = await readBody(request, MAX_BODY_BYTES) as { data: unknown; version: string };
+      const current = await readDataFile();
+      const issues = await checkData(data);
+      sendJson(response, 200, {
+        issues,
+        conflict: current.version !== version,
+        diff: issues.length === 0 ? diffLines(formatAppData(current.raw as AppData), formatAppData(data as AppData)) : [],
+      });
+      return;
+    }
+
+    if (request.url === '/api/data' && request.method === 'PUT') {
+      const { data, version } = await readBody(request, MAX_BODY_BYTES) as { data: unknown; version: string };
+      const current = await readDataFile();
+      if (current.version !== version) {
+        sendJson(response, 409, { error: 'data.json changed since it was loaded' });
+        return;
+      }
+      const issues = await checkData(data);
+      if (issues.length > 0) {
+        sendJson(response, 422, { issues });
+        return;
+      }
+      sendJson(response, 200, { version: await writeDataFile(data as AppData) });
+      console.log(`Saved data.json at ${new Date().toLocaleTimeString()}`);
+      return;
+    }
+
+    sendJson(response, 404, { error: 'Not found' });
+  } catch (error) {
+    console.error(error);
+    sendJson(response, 500, { error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+// Bound to loopback only: this server writes to the working tree and has no authentication.
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`Admin server listening on http://127.0.0.1:${PORT} (open /admin in the dev site)`);
+});
@@ -0,0 +1,110 @@
+// Answers the product assistant with Gemini, holding the API key so it never reaches
+// the browser. Start the site with VITE_ASSISTANT_URL=/api/assistant and run
+// `npm run assistant` alongside `npm run dev`; Vite proxies /api/assistant to this
+// server. Deployed, this server (or another with the same contract) answers the
+// site's VITE_ASSISTANT_URL.
+//
+//   POST /api/assistant  { lang, messages } -> AssistantAnswer | 400 | 429 | 502
+//
+// The catalog comes from this server's own data.json, never from the request, so
+// callers can only ask questions about it. Each address may ask RATE_LIMIT questions
+// a minute. The key is GEMINI_API_KEY from the environment or from .env.local.
+import http from 'node:http';
+import path from 'node:path';
+import { loadEnv } from 'vite';
+import { parseAppData } from '../data-schema.ts';
+import { LOCALES, type Language } from '../locales/registry.ts';
+import {
+  buildAssistantContext, createGeminiAssistantModel, MAX_MESSAGE_LENGTH, MAX_MESSAGES,
+  type AssistantContext, type AssistantMessage,
+} from '../assistant.ts';
+import { readDataFile } from './data-file.ts';
+import { readBody, sendJson } from './http-json.ts';
+
+const PORT = Number(process.env.ASSISTANT_PORT) || 3004;
+const apiKey = process.env.GEMINI_API_KEY || loadEnv('development', path.resolve(import.meta.dirname, '..'), '').GEMINI_API_KEY;
+// A full conversation is a few kilobytes; anything bigger is not from the site.
+const MAX_BODY_BYTES = 64 * 1024;
+const RATE_LIMIT = Number(process.env.ASSISTANT_RATE_LIMIT) || 10;
+const RATE_WINDOW_MS = 60_000;
+
+if (!apiKey) {
+  console.error('Set GEMINI_API_KEY in the environment or in .env.local.');
+  process.exit(1);
+}
+
+const model = createGeminiAssistantModel(apiKey);
+
+const isLanguage = (lang: unknown): lang is Language => typeof lang === 'string' && Object.hasOwn(LOCALES, lang);
+
+const isConversation = (messages: unknown): messages is AssistantMessage[] =>
+  Array.isArray(messages) && messages.length > 0 && messages.length <= MAX_MESSAGES
+  && messages.every(message =>
+    (message?.role === 'user' || message?.role === 'assistant')
+    && typeof message.text === 'string' && message.text.length <= MAX_MESSAGE_LENGTH
+  );
+
+// Rebuilt when data.json changes, e.g. after an edit in the admin pages.
+let catalog: { version: string; contexts: Map<Language, AssistantContext> } | undefined;
+
+const contextFor = async (lang: Language) => {
+  const { raw, version } = await readDataFile();
+  if (catalog?.version !== version) {
+    const data = parseAppData(raw);
+    catalog = { version, contexts: new Map(Object.keys(LOCALES).map(code => [code as Language, buildAssistantContext(data, code as Language)])) };
+  }
+  return catalog.contexts.get(lang)!;
+};
+
+// Questions asked per address in the current window. Behind a reverse proxy every
+// request comes from the proxy, so set TRUST_PROXY=1 there to count X-Forwarded-For.
+const asked = new Map<string, { since: number; count: number }>();
+
+const isRateLimited = (request: http.IncomingMessage) => {
+  const forwarded = process.env.TRUST_PROXY ? String(request.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+  const address = forwarded || request.socket.remoteAddress || '';
+  const now = Date.now();
+  for (const [key, entry] of asked) {
+    if (now - entry.since >= RATE_WINDOW_MS) {
+      asked.delete(key);
+    }
+  }
+  const entry = asked.get(address) ?? { since: now, count: 0 };
+  entry.count++;
+  asked.set(address, entry);
+  return entry.count > RATE_LIMIT;
+};
+
+const server = http.createServer(async (request, response) => {
+  try {
+    if (request.url === '/api/assistant' && request.method === 'POST') {
+      if (isRateLimited(request)) {
+        response.setHeader('Retry-After', String(RATE_WINDOW_MS / 1000));
+        sendJson(response, 429, { error: 'Too many questions; try again in a minute' });
+        return;
+      }
+      const { lang, messages } = await readBody(request, MAX_BODY_BYTES) as { lang?: unknown; messages?: unknown };
+      if (!isLanguage(lang) || !isConversation(messages)) {
+        sendJson(response, 400, { error: 'lang and messages are required' });
+        return;
+      }
+      const context = await contextFor(lang);
+      try {
+        sendJson(response, 200, await model.answer(context, messages));
+      } catch (error) {
+        console.error('Gemini error:', error);
+        sendJson(response, 502, { error: 'The assistant model is unavailable' });
+      }
+      return;
+    }
+
+    sendJson(response, 404, { error: 'Not found' });
+  } catch (error) {
+    console.error(error);
+    sendJson(response, 500, { error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`Assistant server listening on http://127.0.0.1:${PORT}`);
+});
@@ -0,0 +1,148 @@
+// Downloads every image that data.json and the site use, keeps the originals in
+// .image-cache/, and writes resized AVIF and WebP copies to public/images/ plus
+// image-manifest.json, which the site bundles to render srcset, width/height and
+// a blur placeholder for each image. Images without a manifest entry (for
+// example ones added after the last run) are still shown from their own URL.
+//
+//   npm run images               # before npm run build
+//   npm run images -- --force    # regenerate every image
+//
+// Only new images are downloaded and converted, so re-running is cheap.
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import sharp from 'sharp';
+import { parseAppData } from '../data-schema.ts';
+import { collectImageUrls, IMAGE_WIDTHS, SITE_IMAGES, type ImageManifest, type ImageManifestEntry } from '../images.ts';
+import { readDataFile } from './data-file.ts';
+
+const rootDir = path.resolve(import.meta.dirname, '..');
+const cacheDir = path.join(rootDir, '.image-cache');
+const outDir = path.join(rootDir, 'public', 'images');
+const manifestFile = path.join(rootDir, 'image-manifest.json');
+
+const PLACEHOLDER_WIDTH = 16; // px
+// Home screen icons named in public/manifest.webmanifest.
+const ICON_SIZES = [192, 512];
+const DOWNLOAD_ATTEMPTS = 3;
+
+const { values: options } = parseArgs({
+  options: {
+    force: { type: 'boolean', default: false },
+  },
+});
+
+const exists = (file: string) => fs.stat(file).then(() => true, () => false);
+
+const isRemote = (url: string) => /^(https?:)?\/\//.test(url);
+
+// Names the cached original and the generated files of an image.
+const cacheKey = (url: string) => crypto.createHash('sha1').update(url).digest('hex').slice(0, 16);
+
+// imgur answers bursts of requests with 429, so back off and try again.
+const download = async (url: string) => {
+  for (let attempt = 1; ; attempt++) {
+    const response = await fetch(url.startsWith('//') ? `https:${url}` : url).catch(() => null);
+    if (response?.ok) {
+      return Buffer.from(await response.arrayBuffer());
+    }
+    const retryable = !response || response.status === 429 || response.status >= 500;
+    if (attempt === DOWNLOAD_ATTEMPTS || !retryable) {
+      throw new Error(response ? `HTTP ${response.status}` : 'network error');
+    }
+    await new Promise(resolve => setTimeout(resolve, 2000 * attempt));
+  }
+};
+
+const readOriginal = async (url: string, key: string) => {
+  if (!isRemote(url)) {
+    return fs.readFile(path.join(rootDir, 'public', url.replace(/^\.?\//, '')));
+  }
+  const cached = path.join(cacheDir, key);
+  if (await exists(cached)) {
+    return fs.readFile(cached);
+  }
+  const original = await download(url);
+  await fs.writeFile(cached, original);
+  return original;
+};
+
+const processImage = async (url: string, key: string): Promise<ImageManifestEntry> => {
+  const original = await readOriginal(url, key);
+  const { autoOrient } = await sharp(original).metadata();
+  const { width, height } = autoOrient;
+  const widths = [...IMAGE_WIDTHS.filter(candidate => candidate < width), Math.min(width, IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1])];
+  for (const targetWidth of widths) {
+    const resized = sharp(original).autoOrient().resize({ width: targetWidth });
+    await resized.clone().avif({ quality: 50 }).toFile(path.join(outDir, `${key}-${targetWidth}.avif`));
+    await resized.clone().webp({ quality: 75 }).toFile(path.join(outDir, `${key}-${targetWidth}.webp`));
+  }
+  const placeholder = await sharp(original).autoOrient().resize({ width: PLACEHOLDER_WIDTH }).blur().webp({ quality: 40 }).toBuffer();
+  return {
+    width,
+    height,
+    widths,
+    path: `/images/${key}`,
+    placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+  };
+};
+
+await fs.mkdir(cacheDir, { recursive: true });
+await fs.mkdir(outDir, { recursive: true });
+// One image at a time keeps memory use low on small build machines.
+sharp.concurrency(1);
+
+const previous: ImageManifest = !options.force && await exists(manifestFile)
+  ? JSON.parse(await fs.readFile(manifestFile, 'utf8'))
+  : {};
+const urls = collectImageUrls(parseAppData((await readDataFile()).raw));
+const manifest: ImageManifest = {};
+const failures: string[] = [];
+let converted = 0;
+
+for (const url of urls) {
+  const key = cacheKey(url);
+  const known = previous[url];
+  if (known && await exists(path.join(rootDir, 'public', `${known.path}-${known.widths[0]}.webp`))) {
+    manifest[url] = known;
+    continue;
+  }
+  try {
+    manifest[url] = await processImage(url, key);
+    converted++;
+    console.log(`  ${url} (${manifest[url].widths.join(', ')})`);
+  } catch (error) {
+    failures.push(`${url}: ${(error as Error).message}`);
+  }
+}
+
+// The logo, centred on white, as square PNG icons for installing the site.
+const icons = ICON_SIZES.map(size => `icon-${size}.png`);
+try {
+  const logo = await readOriginal(SITE_IMAGES.logo, cacheKey(SITE_IMAGES.logo));
+  for (const size of ICON_SIZES) {
+    await sharp(logo)
+      .resize({ width: Math.round(size * 0.8), height: Math.round(size * 0.8), fit: 'contain', background: '#ffffff' })
+      .extend({ top: size / 10, bottom: size / 10, left: size / 10, right: size / 10, background: '#ffffff' })
+      .flatten({ background: '#ffffff' })
+      .png()
+      .toFile(path.join(outDir, `icon-${size}.png`));
+  }
+} catch (error) {
+  failures.push(`${SITE_IMAGES.logo} (app icons): ${(error as Error).message}`);
+}
+
+// Remove copies of images that data.json no longer uses.
+const keep = new Set([...icons, ...Object.values(manifest).flatMap(entry =>
+  entry.widths.flatMap(width => [`${path.basename(entry.path)}-${width}.avif`, `${path.basename(entry.path)}-${width}.webp`])
+)]);
+const stale = (await fs.readdir(outDir)).filter(file => !keep.has(file));
+await Promise.all(stale.map(file => fs.rm(path.join(outDir, file))));
+
+await fs.writeFile(manifestFile, `${JSON.stringify(manifest, null, 2)}\n`);
+console.log(`${converted} image(s) converted, ${Object.keys(manifest).length - converted} unchanged, ${stale.length} stale file(s) removed.`);
+if (failures.length > 0) {
+  // The site falls back to the original URLs for these, so this is not fatal.
+  console.warn(`\nCould not process ${failures.length} image(s):\n${failures.map(failure => `  - ${failure}`).join('\n')}`);
+}
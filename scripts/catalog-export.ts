@@ -0,0 +1,18 @@
+// Writes every product in data.json to a spreadsheet in the format
+// catalog:import reads (see scripts/catalog-sheet.ts).
+//
+//   npm run catalog:export -- catalog.xlsx
+//   npm run catalog:export -- catalog.csv
+import { parseAppData } from '../data-schema.ts';
+import { CATALOG_COLUMNS, productToRow, writeSheetFile } from './catalog-sheet.ts';
+import { readDataFile } from './data-file.ts';
+
+const [file] = process.argv.slice(2);
+if (!file) {
+  console.error('Usage: npm run catalog:export -- <file.xlsx|file.csv>');
+  process.exit(1);
+}
+
+const data = parseAppData((await readDataFile()).raw);
+await writeSheetFile(file, CATALOG_COLUMNS, data.products.map(productToRow));
+console.log(`Exported ${data.products.length} products to ${file}.`);
@@ -0,0 +1,130 @@
+// Imports products from a supplier or translation spreadsheet into data.json.
+// Columns are named like the fields they fill (see scripts/catalog-sheet.ts);
+// `--columns map.json` maps other headers, e.g. { "Item Code": "id", "Description": "shortDescription.en" }.
+//
+//   npm run catalog:import -- prices.xlsx [--merge | --overwrite] [--columns map.json] [--sheet Name] [--dry-run]
+//
+// Rows whose id is not in data.json are added. Rows whose id already exists are
+// conflicts: the import stops and lists them unless --merge (non-empty cells
+// replace those fields, everything else is kept) or --overwrite (the row
+// replaces the product) is given. Nothing is written unless the resulting
+// catalog passes the same checks as check:data.
+import fs from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { validateAppData, type AppData, type Product } from '../data-schema.ts';
+import { CATALOG_COLUMNS, mergeProduct, readSheetFile, rowToProduct, type SheetRow } from './catalog-sheet.ts';
+import { readDataFile, writeDataFile } from './data-file.ts';
+import { lintAppData } from './lint-data.ts';
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    merge: { type: 'boolean', default: false },
+    overwrite: { type: 'boolean', default: false },
+    columns: { type: 'string' },
+    sheet: { type: 'string' },
+    'dry-run': { type: 'boolean', default: false },
+  },
+});
+
+const fail = (problems: string[], summary: string) => {
+  console.error(problems.map(problem => `  - ${problem}`).join('\n'));
+  console.error(`\n${summary}`);
+  process.exit(1);
+};
+
+const [file] = positionals;
+if (!file || (options.merge && options.overwrite)) {
+  console.error('Usage: npm run catalog:import -- <file.xlsx|file.csv> [--merge | --overwrite] [--columns map.json] [--sheet Name] [--dry-run]');
+  process.exit(1);
+}
+
+const columnMap: Record<string, string> = options.columns ? JSON.parse(await fs.readFile(options.columns, 'utf8')) : {};
+const { raw } = await readDataFile();
+const issues = validateAppData(raw);
+if (issues.length > 0) {
+  fail(issues, 'data.json is invalid; run `npm run check:data` and fix it before importing.');
+}
+const data = raw as AppData;
+
+// Resolve each header to a catalog column: the --columns map first, then the column name itself, ignoring case.
+const { headers, rows } = await readSheetFile(file, options.sheet);
+const columnFor = (header: string) =>
+  columnMap[header] ?? CATALOG_COLUMNS.find(column => column.toLowerCase() === header.toLowerCase());
+const ignored = headers.filter(header => header && !columnFor(header));
+if (ignored.length > 0) {
+  console.warn(`Ignoring columns that match no product field: ${ignored.join(', ')}`);
+}
+const unknownTargets = Object.values(columnMap).filter(column => !CATALOG_COLUMNS.includes(column));
+if (unknownTargets.length > 0) {
+  fail(unknownTargets.map(column => `--columns maps to unknown field "${column}"`), 'Import aborted.');
+}
+
+const problems: string[] = [];
+const imported = rows.map((row, index) => {
+  const mapped: SheetRow = {};
+  for (const [header, value] of Object.entries(row)) {
+    const column = columnFor(header);
+    if (column && value.trim()) {
+      mapped[column] = value;
+    }
+  }
+  // Row numbers as shown in the spreadsheet, below the header row.
+  const label = `row ${index + 2}`;
+  if (!mapped.id) {
+    problems.push(`${label}: missing id`);
+  }
+  return { label, cells: mapped, product: rowToProduct(mapped, data.specDefinitions, problems, label) };
+});
+
+const seen = new Map<string, string>();
+for (const { label, cells } of imported) {
+  if (cells.id && seen.has(cells.id)) {
+    problems.push(`${label}: id "${cells.id}" also appears in ${seen.get(cells.id)}`);
+  }
+  seen.set(cells.id, label);
+}
+if (problems.length > 0) {
+  fail(problems, `Import aborted: ${problems.length} problem(s) in ${file}.`);
+}
+
+const existingIds = new Set(data.products.map(product => product.id));
+const conflicts = imported.filter(({ cells }) => existingIds.has(cells.id));
+if (conflicts.length > 0 && !options.merge && !options.overwrite) {
+  fail(
+    conflicts.map(({ label, cells }) => `${label}: product "${cells.id}" already exists`),
+    `${conflicts.length} row(s) conflict with existing products. Re-run with --merge to update only the filled-in fields, or --overwrite to replace those products.`
+  );
+}
+
+const byId = new Map(imported.map(entry => [entry.cells.id, entry]));
+const products = data.products.map(product => {
+  const entry = byId.get(product.id);
+  if (!entry) {
+    return product;
+  }
+  // Sheets have no columns for product options, so an overwritten product keeps its options.
+  return options.merge ? mergeProduct(product, entry.product) : { ...entry.product, options: product.options } as Product;
+});
+const added = imported.filter(({ cells }) => !existingIds.has(cells.id));
+const next: AppData = { ...data, products: [...products, ...added.map(({ product }) => product as Product)] };
+
+// Point schema issues about imported products at their spreadsheet rows.
+const rowLabels = next.products.map(product => byId.get(product.id)?.label);
+const nextIssues = validateAppData(next).map(issue =>
+  issue.replace(/^data\.products\[(\d+)\]/, (match, index) => rowLabels[Number(index)] ? `${rowLabels[Number(index)]} (${next.products[Number(index)].id})` : match)
+);
+if (nextIssues.length === 0) {
+  nextIssues.push(...await lintAppData(next));
+}
+if (nextIssues.length > 0) {
+  fail(nextIssues, 'Import aborted: the catalog would not pass check:data. data.json was not changed.');
+}
+
+const summary = `${added.length} added, ${conflicts.length} ${options.overwrite ? 'overwritten' : 'merged'}`;
+if (options['dry-run']) {
+  console.log(`Dry run: ${summary}. data.json was not changed.`);
+} else {
+  await writeDataFile(next);
+  console.log(`Imported ${file}: ${summary}.`);
+}
@@ -0,0 +1,291 @@
+// Shared helpers for catalog:import and catalog:export. A catalog sheet has one
+// row per product and one column per field, named after the field's path in
+// data.json: `id`, `name.en`, `name.ar`, `specs.seatWidth`, …. List fields
+// (`features.<lang>`, `otherImages`, `spinImages`) hold one item per line of the
+// cell, so the nth line of `features.en` and `features.ar` are the same feature.
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { readSheet } from 'read-excel-file/node';
+import writeXlsxFile from 'write-excel-file/node';
+import { LOCALES, SOURCE_LANGUAGE } from '../locales/registry.ts';
+import { AVAILABILITY, LIST_SPEC_KEYS, SPEC_KEYS, type LocalizedString, type Product, type SpecDefinition } from '../data-schema.ts';
+
+export type SheetRow = Record<string, string>;
+
+const LANGUAGES = [SOURCE_LANGUAGE, ...Object.keys(LOCALES).filter(lang => lang !== SOURCE_LANGUAGE)];
+
+const LOCALIZED_FIELDS = ['name', 'manufacturer', 'category', 'shortDescription', 'countryOfOrigin'] as const;
+
+const localizedColumns = (field: string) => LANGUAGES.map(lang => `${field}.${lang}`);
+
+// Export order; translators get related columns next to each other.
+export const CATALOG_COLUMNS = [
+  'id',
+  'model',
+  ...localizedColumns('name'),
+  ...localizedColumns('manufacturer'),
+  ...localizedColumns('category'),
+  'mainCategory',
+  'subCategory',
+  'isFeatured',
+  'price',
+  'priceOnRequest',
+  'availability',
+  'leadTimeDays',
+  'warrantyMonths',
+  'image',
+  'otherImages',
+  'video',
+  'spinImages',
+  ...localizedColumns('shortDescription'),
+  ...localizedColumns('countryOfOrigin'),
+  ...localizedColumns('features'),
+  ...SPEC_KEYS.map(key => `specs.${key}`),
+];
+
+const splitLines = (cell: string) => cell.split(/\r?\n/).map(line => line.trim());
+
+const formatBoolean = (value: boolean | undefined) => value === undefined ? '' : value ? 'yes' : 'no';
+
+const parseBoolean = (cell: string) => {
+  const normalized = cell.toLowerCase();
+  if (['yes', 'true', '1', 'y'].includes(normalized)) return true;
+  if (['no', 'false', '0', 'n'].includes(normalized)) return false;
+  return undefined;
+};
+
+export const productToRow = (product: Product): SheetRow => {
+  const row: SheetRow = {
+    id: product.id,
+    model: product.model ?? '',
+    mainCategory: product.mainCategory ?? '',
+    subCategory: product.subCategory ?? '',
+    isFeatured: formatBoolean(product.isFeatured),
+    price: String(product.price ?? ''),
+    priceOnRequest: formatBoolean(product.priceOnRequest),
+    availability: product.availability ?? '',
+    leadTimeDays: String(product.leadTimeDays ?? ''),
+    warrantyMonths: String(product.warrantyMonths ?? ''),
+    image: product.image,
+    otherImages: (product.otherImages ?? []).join('\n'),
+    video: product.video ?? '',
+    spinImages: (product.spinImages ?? []).join('\n'),
+  };
+  for (const field of LOCALIZED_FIELDS) {
+    for (const lang of LANGUAGES) {
+      row[`${field}.${lang}`] = product[field][lang as keyof LocalizedString] ?? '';
+    }
+  }
+  for (const lang of LANGUAGES) {
+    const items = product.features.map(feature => feature[lang as keyof LocalizedString] ?? '');
+    row[`features.${lang}`] = items.some(Boolean) ? items.join('\n') : '';
+  }
+  for (const key of SPEC_KEYS) {
+    const value = product.specs?.[key];
+    row[`specs.${key}`] = Array.isArray(value) ? value.join(', ') : typeof value === 'boolean' ? formatBoolean(value) : String(value ?? '');
+  }
+  return row;
+};
+
+// Builds a product from the non-empty cells of `row`. The result is not checked
+// against the schema; callers validate the whole catalog once it is assembled.
+export const rowToProduct = (row: SheetRow, definitions: SpecDefinition[], problems: string[], rowLabel: string): Partial<Product> => {
+  const cell = (column: string) => row[column]?.trim() ?? '';
+  const product: Record<string, unknown> = {};
+  const setText = (column: string) => {
+    if (cell(column)) product[column] = cell(column);
+  };
+
+  setText('id');
+  setText('model');
+  setText('mainCategory');
+  setText('subCategory');
+  setText('image');
+  setText('video');
+
+  for (const field of LOCALIZED_FIELDS) {
+    const value = Object.fromEntries(LANGUAGES.filter(lang => cell(`${field}.${lang}`)).map(lang => [lang, cell(`${field}.${lang}`)]));
+    if (Object.keys(value).length > 0) {
+      product[field] = value;
+    }
+  }
+
+  const featureLines = Object.fromEntries(LANGUAGES.map(lang => [lang, cell(`features.${lang}`) ? splitLines(cell(`features.${lang}`)) : []]));
+  const featureCount = Math.max(...Object.values(featureLines).map(lines => lines.length));
+  product.features = Array.from({ length: featureCount }, (_, index) =>
+    Object.fromEntries(LANGUAGES.filter(lang => featureLines[lang][index]).map(lang => [lang, featureLines[lang][index]]))
+  );
+
+  for (const column of ['otherImages', 'spinImages']) {
+    if (cell(column)) {
+      product[column] = splitLines(cell(column)).filter(Boolean);
+    }
+  }
+
+  for (const column of ['isFeatured', 'priceOnRequest']) {
+    if (cell(column)) {
+      const value = parseBoolean(cell(column));
+      if (value === undefined) {
+        problems.push(`${rowLabel}, ${column}: expected yes or no, got "${cell(column)}"`);
+      } else {
+        product[column] = value;
+      }
+    }
+  }
+
+  for (const column of ['price', 'leadTimeDays', 'warrantyMonths']) {
+    if (cell(column)) {
+      // Supplier price lists often group thousands with commas.
+      const value = Number(cell(column).replace(/,/g, ''));
+      if (Number.isNaN(value)) {
+        problems.push(`${rowLabel}, ${column}: expected a number, got "${cell(column)}"`);
+      } else {
+        product[column] = value;
+      }
+    }
+  }
+
+  if (cell('availability')) {
+    const availability = AVAILABILITY.find(value => value.toLowerCase() === cell('availability').toLowerCase());
+    if (availability) {
+      product.availability = availability;
+    } else {
+      problems.push(`${rowLabel}, availability: expected one of ${AVAILABILITY.join(', ')}, got "${cell('availability')}"`);
+    }
+  }
+
+  const specs: Record<string, unknown> = {};
+  for (const key of SPEC_KEYS) {
+    const text = cell(`specs.${key}`);
+    if (!text) {
+      continue;
+    }
+    const type = definitions.find(definition => definition.key === key)?.type ?? 'number';
+    if (type === 'boolean') {
+      specs[key] = parseBoolean(text);
+    } else if (type === 'enum') {
+      specs[key] = text;
+    } else {
+      const numbers = text.split(/[,\n]/).map(part => part.trim()).filter(Boolean).map(Number);
+      specs[key] = LIST_SPEC_KEYS.includes(key) ? numbers : numbers[0];
+      if (numbers.some(Number.isNaN) || (!LIST_SPEC_KEYS.includes(key) && numbers.length > 1)) {
+        problems.push(`${rowLabel}, specs.${key}: expected ${LIST_SPEC_KEYS.includes(key) ? 'numbers separated by commas' : 'a number'}, got "${text}"`);
+      }
+    }
+    if (specs[key] === undefined) {
+      problems.push(`${rowLabel}, specs.${key}: expected yes or no, got "${text}"`);
+    }
+  }
+  if (Object.keys(specs).length > 0) {
+    product.specs = specs;
+  }
+
+  return product as Partial<Product>;
+};
+
+// Applies the fields a sheet row filled in to an existing product. Translations
+// and specs are merged key by key and features line by line, so a sheet with
+// only Arabic columns adds the Arabic text and keeps everything else.
+export const mergeProduct = (product: Product, patch: Partial<Product>): Product => {
+  const merged: Product = { ...product, ...patch };
+  for (const field of LOCALIZED_FIELDS) {
+    if (patch[field]) {
+      merged[field] = { ...product[field], ...patch[field] };
+    }
+  }
+  if (patch.specs) {
+    merged.specs = { ...product.specs, ...patch.specs };
+  }
+  const features = patch.features ?? [];
+  merged.features = features.length === 0 ? product.features : Array.from(
+    { length: Math.max(product.features.length, features.length) },
+    (_, index) => ({ ...product.features[index], ...features[index] })
+  );
+  return merged;
+};
+
+// --- Files ---
+// CSV follows RFC 4180: quoted fields may contain commas, quotes ("") and newlines.
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const formatCsvField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const cellToText = (value: unknown) =>
+  value === null || value === undefined ? ''
+    : value instanceof Date ? value.toISOString().slice(0, 10)
+    : typeof value === 'boolean' ? formatBoolean(value)
+    : String(value);
+
+const isExcel = (file: string) => path.extname(file).toLowerCase() === '.xlsx';
+
+const assertSupported = (file: string) => {
+  if (!['.csv', '.xlsx'].includes(path.extname(file).toLowerCase())) {
+    throw new Error(`${file}: expected a .csv or .xlsx file`);
+  }
+};
+
+// Returns the header row and the data rows keyed by header; blank rows are skipped.
+export const readSheetFile = async (file: string, sheet?: string) => {
+  assertSupported(file);
+  const cells: unknown[][] = isExcel(file)
+    ? await readSheet(file, sheet ?? 1)
+    // Spreadsheet apps often save CSV with a byte order mark.
+    : parseCsv((await fs.readFile(file, 'utf8')).replace(/^﻿/, ''));
+  const [headerCells = [], ...dataCells] = cells;
+  const headers = headerCells.map(value => cellToText(value).trim());
+  const rows = dataCells
+    .map(values => Object.fromEntries(headers.map((header, index) => [header, cellToText(values[index])])))
+    .filter(row => Object.values(row).some(value => value.trim()));
+  return { headers, rows };
+};
+
+export const writeSheetFile = async (file: string, headers: string[], rows: SheetRow[]) => {
+  assertSupported(file);
+  const values = rows.map(row => headers.map(header => row[header] ?? ''));
+  if (isExcel(file)) {
+    await writeXlsxFile(
+      [headers.map(header => ({ value: header, fontWeight: 'bold' as const })), ...values.map(row => row.map(value => ({ value, wrap: true })))],
+      { sheet: 'Products', stickyRowsCount: 1 }
+    ).toFile(file);
+    return;
+  }
+  const lines = [headers, ...values].map(row => row.map(formatCsvField).join(','));
+  // The byte order mark makes Excel open the file as UTF-8, so Arabic text survives.
+  await fs.writeFile(file, `﻿${lines.join('\r\n')}\r\n`);
+};
@@ -0,0 +1,23 @@
+// Checks data.json: its shape (see data-schema.ts), then the content rules in
+// scripts/lint-data.ts.
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { validateAppData, type AppData } from '../data-schema.ts';
+import { lintAppData } from './lint-data.ts';
+
+const rootDir = path.resolve(import.meta.dirname, '..');
+
+const raw = JSON.parse(await fs.readFile(path.join(rootDir, 'data.json'), 'utf8'));
+const problems = validateAppData(raw);
+
+// Content checks assume the structure is right, so only run them on a valid file.
+if (problems.length === 0) {
+  problems.push(...await lintAppData(raw as AppData));
+}
+
+if (problems.length > 0) {
+  console.error(problems.map(problem => `  - ${problem}`).join('\n'));
+  console.error(`\ndata.json check failed with ${problems.length} problem(s).`);
+  process.exit(1);
+}
+console.log('data.json OK.');
@@ -0,0 +1,89 @@
+// Fails when a complete locale catalog is missing a key, when any catalog has a
+// mismatched placeholder or a key English does not define, when the catalogs and
+// locales/registry.ts disagree, when locales/keys.ts is stale, or when code
+// passes args a message does not use. Partial catalogs fall back at runtime.
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { LOCALES, type LocaleDefinition } from '../locales/registry.ts';
+import { SOURCE_LOCALE, getPlaceholders, localesDir, readCatalogs, renderKeysModule, rootDir } from './locale-catalogs.ts';
+
+const SOURCE_FILES = ['index.tsx', 'admin.tsx', 'assistant.ts', 'product-format.ts'];
+
+const catalogs = await readCatalogs();
+const source = catalogs[SOURCE_LOCALE];
+const problems: string[] = [];
+const partial: string[] = [];
+
+for (const [locale, definition] of Object.entries(LOCALES)) {
+  if (!catalogs[locale]) {
+    problems.push(`${locale}: registered in locales/registry.ts but locales/${locale}.json is missing`);
+  }
+  for (const fallback of definition.fallback) {
+    if (!(fallback in LOCALES)) {
+      problems.push(`${locale}: falls back to unknown locale "${fallback}"`);
+    }
+  }
+}
+
+for (const [locale, catalog] of Object.entries(catalogs)) {
+  const definition: LocaleDefinition | undefined = LOCALES[locale as keyof typeof LOCALES];
+  if (!definition) {
+    problems.push(`${locale}: locales/${locale}.json is not registered in locales/registry.ts`);
+    continue;
+  }
+  const missing = Object.keys(source).filter(key => !(key in catalog));
+  if (definition.complete) {
+    missing.forEach(key => problems.push(`${locale}: missing key "${key}"`));
+  } else if (missing.length > 0) {
+    partial.push(`${locale} ${Object.keys(source).length - missing.length}/${Object.keys(source).length}`);
+  }
+  for (const key of Object.keys(source)) {
+    if (!(key in catalog)) {
+      continue;
+    }
+    if (!catalog[key].trim()) {
+      problems.push(`${locale}: empty message for "${key}"`);
+    }
+    const expected = getPlaceholders(source[key]).join(', ');
+    const actual = getPlaceholders(catalog[key]).join(', ');
+    if (expected !== actual) {
+      problems.push(`${locale}: "${key}" has placeholders {${actual}} but ${SOURCE_LOCALE} has {${expected}}`);
+    }
+  }
+  for (const key of Object.keys(catalog)) {
+    if (!(key in source)) {
+      problems.push(`${locale}: unknown key "${key}" (not in ${SOURCE_LOCALE}.json)`);
+    }
+  }
+}
+
+const keysModule = await fs.readFile(path.join(localesDir, 'keys.ts'), 'utf8').catch(() => '');
+if (keysModule !== renderKeysModule(source)) {
+  problems.push('locales/keys.ts is out of date; run `npm run locales:types`');
+}
+
+// t('key', { name: value }) calls: every arg must be a placeholder of that message.
+for (const file of SOURCE_FILES) {
+  const code = await fs.readFile(path.join(rootDir, file), 'utf8');
+  for (const match of code.matchAll(/\bt\('(\w+)',\s*\{([^}]*)\}\)/g)) {
+    const [, key, argList] = match;
+    const argNames = argList.split(',').map(arg => arg.split(':')[0].trim()).filter(Boolean);
+    for (const name of argNames) {
+      for (const [locale, catalog] of Object.entries(catalogs)) {
+        if (catalog[key] !== undefined && !getPlaceholders(catalog[key]).includes(name)) {
+          problems.push(`${file}: t('${key}') passes {${name}} but the ${locale} message has no such placeholder`);
+        }
+      }
+    }
+  }
+}
+
+if (problems.length > 0) {
+  console.error(problems.map(problem => `  - ${problem}`).join('\n'));
+  console.error(`\nLocale check failed with ${problems.length} problem(s).`);
+  process.exit(1);
+}
+console.log(`Locale catalogs OK (${Object.keys(catalogs).join(', ')}; ${Object.keys(source).length} keys).`);
+if (partial.length > 0) {
+  console.log(`Partially translated, falling back at runtime: ${partial.join(', ')}.`);
+}
@@ -0,0 +1,28 @@
+// Reads and writes data.json for the scripts that edit it. Writes go through a
+// temporary file so a crash mid-write never leaves the site with half a catalog.
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { AppData } from '../data-schema.ts';
+
+const rootDir = path.resolve(import.meta.dirname, '..');
+export const dataFile = path.join(rootDir, 'data.json');
+
+// Identifies one saved state of the file, so editors can detect changes made since they loaded it.
+const versionOf = (text: string) => createHash('sha1').update(text).digest('hex');
+
+// One field per line keeps diffs of data.json reviewable.
+export const formatAppData = (data: AppData) => `${JSON.stringify(data, null, 2)}\n`;
+
+export const readDataFile = async (): Promise<{ raw: unknown; version: string }> => {
+  const text = await fs.readFile(dataFile, 'utf8');
+  return { raw: JSON.parse(text), version: versionOf(text) };
+};
+
+export const writeDataFile = async (data: AppData) => {
+  const text = formatAppData(data);
+  const tempFile = `${dataFile}.${process.pid}.tmp`;
+  await fs.writeFile(tempFile, text);
+  await fs.rename(tempFile, dataFile);
+  return versionOf(text);
+};
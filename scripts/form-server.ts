@@ -0,0 +1,90 @@
+// Local stand-in for the form backend, implementing the webhook contract in
+// forms.ts. Start the site with VITE_FORM_WEBHOOK=/api/forms and run
+// `npm run forms` alongside `npm run dev`; Vite proxies /api/forms to this server.
+//
+//   POST /api/forms  FormPayload -> 200 | 422 { message?, errors? }
+//
+// Each accepted submission is written to .form-submissions/ with its attachments;
+// the log flags those sent within MIN_FILL_TIME_MS of the form opening.
+// Set FORMS_FAIL=<n> to answer the first n requests with 503 and watch the site retry.
+import fs from 'node:fs/promises';
+import http from 'node:http';
+import path from 'node:path';
+import { isHurriedSubmission, isSpamSubmission, isValidEmail, MAX_ATTACHMENT_MB, MAX_ATTACHMENTS, normalizeSaudiMobile, type FormPayload } from '../forms.ts';
+import { readBody, sendJson } from './http-json.ts';
+
+const PORT = Number(process.env.FORMS_PORT) || 3003;
+const outDir = path.resolve(import.meta.dirname, '..', '.form-submissions');
+// Room for the largest attachments once base64 has grown them by a third.
+const MAX_BODY_BYTES = MAX_ATTACHMENTS * MAX_ATTACHMENT_MB * 1024 * 1024 * 1.4 + 64 * 1024;
+
+let failuresLeft = Number(process.env.FORMS_FAIL) || 0;
+
+// The checks a real backend would make, as { field: message } in English.
+const checkPayload = (payload: FormPayload) => {
+  const errors: Record<string, string> = {};
+  if (typeof payload.email === 'string' && !isValidEmail(payload.email)) {
+    errors.email = 'should be an email address';
+  }
+  if (typeof payload.phone === 'string' && !normalizeSaudiMobile(payload.phone)) {
+    errors.phone = 'should be a Saudi mobile number';
+  }
+  const attachments = payload.attachments || [];
+  if (attachments.length > MAX_ATTACHMENTS) {
+    errors.attachments = `at most ${MAX_ATTACHMENTS} files`;
+  } else if (attachments.some(attachment => !/^data:[\w.+/-]+;base64,/.test(attachment.data))) {
+    errors.attachments = 'should be base64 data: URLs';
+  }
+  return errors;
+};
+
+const save = async ({ attachments = [], ...fields }: FormPayload) => {
+  const id = new Date().toISOString().replace(/[:.]/g, '-');
+  await fs.mkdir(outDir, { recursive: true });
+  await fs.writeFile(path.join(outDir, `${id}.json`), `${JSON.stringify({ ...fields, attachments: attachments.map(attachment => attachment.name) }, null, 2)}\n`);
+  for (const [index, attachment] of attachments.entries()) {
+    const name = `${id}-${index + 1}-${path.basename(attachment.name).replace(/[^\w.-]/g, '_')}`;
+    await fs.writeFile(path.join(outDir, name), Buffer.from(attachment.data.split(',')[1], 'base64'));
+  }
+  return id;
+};
+
+const server = http.createServer(async (request, response) => {
+  try {
+    if (request.url === '/api/forms' && request.method === 'POST') {
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        console.log(`Failing on purpose (${failuresLeft} more to go)`);
+        sendJson(response, 503, { message: 'Temporarily unavailable' });
+        return;
+      }
+      const payload = await readBody(request, MAX_BODY_BYTES) as FormPayload;
+      // Spam is accepted and dropped, as Formspree does, so bots learn nothing.
+      if (isSpamSubmission(payload)) {
+        console.log('Dropped a submission that looks automated');
+        sendJson(response, 200, { ok: true });
+        return;
+      }
+      const errors = checkPayload(payload);
+      if (Object.keys(errors).length > 0) {
+        sendJson(response, 422, { errors });
+        return;
+      }
+      const id = await save(payload);
+      // Quick submissions are kept, since autofilled forms are quick too, but marked for review.
+      const flag = isHurriedSubmission(payload) ? ' (sent quickly; check it is not spam)' : '';
+      console.log(`Saved ${String(payload._subject || 'submission')} as .form-submissions/${id}.json${flag}`);
+      sendJson(response, 200, { ok: true });
+      return;
+    }
+
+    sendJson(response, 404, { error: 'Not found' });
+  } catch (error) {
+    console.error(error);
+    sendJson(response, 500, { message: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`Form server listening on http://127.0.0.1:${PORT}`);
+});
@@ -0,0 +1,8 @@
+// Regenerates locales/keys.ts after keys are added to or removed from locales/en.json.
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { SOURCE_LOCALE, localesDir, readCatalogs, renderKeysModule } from './locale-catalogs.ts';
+
+const catalogs = await readCatalogs();
+await fs.writeFile(path.join(localesDir, 'keys.ts'), renderKeysModule(catalogs[SOURCE_LOCALE]));
+console.log(`Wrote ${Object.keys(catalogs[SOURCE_LOCALE]).length} translation keys to locales/keys.ts`);
@@ -0,0 +1,40 @@
+// Writes dist/sw.js from service-worker.js, filling in the files to precache:
+// the client-side shell, the bundled scripts and styles, data.json, the web app
+// manifest and its icons. The cache version is a hash of those files, so every
+// deploy that changes one of them replaces the old cache.
+// Run after the client build and prerender (see the "build" script in package.json).
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+const rootDir = path.resolve(import.meta.dirname, '..');
+const distDir = path.join(rootDir, 'dist');
+
+const exists = (file: string) => fs.stat(file).then(() => true, () => false);
+
+// The admin chunk is only used on the local content server, never offline.
+const assets = (await fs.readdir(path.join(distDir, 'assets')))
+  .filter(file => !file.startsWith('admin-'))
+  .map(file => `/assets/${file}`);
+const icons: string[] = [];
+for (const icon of ['/images/icon-192.png', '/images/icon-512.png']) {
+  if (await exists(path.join(distDir, icon))) {
+    icons.push(icon);
+  }
+}
+const precacheUrls = ['/404.html', '/data.json', '/manifest.webmanifest', ...assets, ...icons];
+
+const hash = crypto.createHash('sha1');
+for (const url of precacheUrls) {
+  hash.update(url).update(await fs.readFile(path.join(distDir, url)));
+}
+const version = hash.digest('hex').slice(0, 12);
+
+const source = await fs.readFile(path.join(rootDir, 'service-worker.js'), 'utf8');
+await fs.writeFile(
+  path.join(distDir, 'sw.js'),
+  source
+    .replace(/\/\* CACHE_VERSION \*\/ '[^']*'/, JSON.stringify(version))
+    .replace('/* PRECACHE_URLS */ []', JSON.stringify(precacheUrls, null, 2))
+);
+console.log(`Wrote dist/sw.js (${precacheUrls.length} files precached, version ${version})`);
@@ -0,0 +1,89 @@
+// Writes dist/sitemap.xml from data.json: every pre-rendered page, including the
+// product and category landing pages, each with hreflang alternates for all languages.
+// Run after the SSR build (see the "build" script in package.json).
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const rootDir = path.resolve(import.meta.dirname, '..');
+const serverEntry = path.join(rootDir, 'dist-ssr', 'entry-server.js');
+
+const { getRoutePaths, absoluteUrl, UNLISTED_PATHS, SUPPORTED_LANGUAGES, DEFAULT_LANGUAGE } =
+  (await import(pathToFileURL(serverEntry).href)) as typeof import('../entry-server.tsx');
+
+const data = JSON.parse(await fs.readFile(path.join(rootDir, 'data.json'), 'utf8'));
+
+// Last committed change to a file, falling back to its mtime outside a git checkout
+// or for uncommitted edits.
+const lastModified = async (file: string) => {
+  const filePath = path.join(rootDir, file);
+  try {
+    const status = execFileSync('git', ['status', '--porcelain', '--', file], { cwd: rootDir, encoding: 'utf8' });
+    const committed = execFileSync('git', ['log', '-1', '--format=%cs', '--', file], { cwd: rootDir, encoding: 'utf8' }).trim();
+    if (committed && !status.trim()) {
+      return committed;
+    }
+  } catch {
+    // Not a git checkout.
+  }
+  return (await fs.stat(filePath)).mtime.toISOString().slice(0, 10);
+};
+
+const siteDate = await lastModified('index.tsx');
+const catalogDate = await lastModified('data.json');
+const latestDate = siteDate > catalogDate ? siteDate : catalogDate;
+
+interface SitemapEntry {
+  path: string;
+  lastmod: string;
+  changefreq: 'weekly' | 'monthly';
+  priority: string;
+}
+
+const staticPages: Record<string, Omit<SitemapEntry, 'path'>> = {
+  '/': { lastmod: latestDate, changefreq: 'monthly', priority: '1.0' },
+  '/about': { lastmod: siteDate, changefreq: 'monthly', priority: '0.8' },
+  '/products': { lastmod: latestDate, changefreq: 'weekly', priority: '0.9' },
+  '/services': { lastmod: latestDate, changefreq: 'monthly', priority: '0.7' },
+  '/faq': { lastmod: latestDate, changefreq: 'monthly', priority: '0.6' },
+  '/contact': { lastmod: siteDate, changefreq: 'monthly', priority: '0.7' },
+};
+
+const categoryPage: Omit<SitemapEntry, 'path'> = { lastmod: catalogDate, changefreq: 'weekly', priority: '0.7' };
+const productPage: Omit<SitemapEntry, 'path'> = { lastmod: catalogDate, changefreq: 'monthly', priority: '0.8' };
+
+const entries: SitemapEntry[] = [
+  ...getRoutePaths(data)
+    .filter(routePath => !UNLISTED_PATHS.includes(routePath))
+    .map(routePath => ({
+      path: routePath,
+      ...(staticPages[routePath] ?? (routePath.startsWith('/products/category/') ? categoryPage : productPage)),
+    })),
+];
+
+const escapeXml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const urls = entries.flatMap(entry =>
+  SUPPORTED_LANGUAGES.map(lang => [
+    '  <url>',
+    `    <loc>${escapeXml(absoluteUrl(lang, entry.path))}</loc>`,
+    ...SUPPORTED_LANGUAGES.map(alternate =>
+      `    <xhtml:link rel="alternate" hreflang="${alternate}" href="${escapeXml(absoluteUrl(alternate, entry.path))}"/>`
+    ),
+    `    <xhtml:link rel="alternate" hreflang="x-default" href="${escapeXml(absoluteUrl(DEFAULT_LANGUAGE, entry.path))}"/>`,
+    `    <lastmod>${entry.lastmod}</lastmod>`,
+    `    <changefreq>${entry.changefreq}</changefreq>`,
+    `    <priority>${entry.priority}</priority>`,
+    '  </url>',
+  ].join('\n'))
+);
+
+const sitemap = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+${urls.join('\n')}
+</urlset>
+`;
+
+await fs.writeFile(path.join(rootDir, 'dist', 'sitemap.xml'), sitemap);
+console.log(`Wrote ${urls.length} URLs to dist/sitemap.xml`);
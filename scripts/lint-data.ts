@@ -0,0 +1,268 @@
+// Content rules for data.json beyond its shape: unique ids, a well-formed
+// category tree, known categories and spec values, complete translations for
+// the required languages, sensible prices and stock details, relative image
+// paths that exist under public/, and how many products are featured. Used by check:data and the admin server.
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { LOCALES } from '../locales/registry.ts';
+import type { AppData, ProductSpecs } from '../data-schema.ts';
+
+const rootDir = path.resolve(import.meta.dirname, '..');
+const publicDir = path.join(rootDir, 'public');
+
+// The home page shows every featured product; outside this range the section looks empty or endless.
+const FEATURED_RANGE = { min: 1, max: 8 };
+
+// Fewer frames than this and a 360° view jumps instead of turning.
+const MIN_SPIN_FRAMES = 8;
+
+const REQUIRED_LANGUAGES = Object.entries(LOCALES)
+  .filter(([, definition]) => 'complete' in definition && definition.complete)
+  .map(([lang]) => lang);
+
+// Assumes `data` already passed validateAppData.
+export const lintAppData = async (data: AppData): Promise<string[]> => {
+  const problems: string[] = [];
+
+  const checkUnique = (label: string, values: string[]) => {
+    const seen = new Set<string>();
+    for (const value of values) {
+      if (seen.has(value)) {
+        problems.push(`${label} "${value}" is used more than once`);
+      }
+      seen.add(value);
+    }
+  };
+  checkUnique('category id', data.categories.map(category => category.id));
+  checkUnique('product id', data.products.map(product => product.id));
+  checkUnique('service id', data.services.map(service => service.id));
+  checkUnique('partner name', data.partners.map(partner => partner.name));
+  checkUnique('spec definition', data.specDefinitions.map(definition => definition.key));
+
+  const parents = new Map(data.categories.map(category => [category.id, category.parent]));
+  // Ancestors of a category, nearest first; a cycle ends the walk after its first repeat.
+  const ancestorsOf = (id: string) => {
+    const ancestors: string[] = [];
+    for (let parent = parents.get(id); parent && !ancestors.includes(parent); parent = parents.get(parent)) {
+      ancestors.push(parent);
+    }
+    return ancestors;
+  };
+  data.categories.forEach((category, index) => {
+    if (category.parent && !parents.has(category.parent)) {
+      problems.push(`data.categories[${index}] (${category.id}).parent: unknown category "${category.parent}"`);
+    }
+    if (ancestorsOf(category.id).includes(category.id)) {
+      problems.push(`data.categories[${index}] (${category.id}): is its own ancestor`);
+    }
+  });
+  data.categories.forEach((category, index) => {
+    (category.featuredProducts || []).forEach((id, featuredIndex) => {
+      const product = data.products.find(candidate => candidate.id === id);
+      const own = product && (product.subCategory || product.mainCategory);
+      if (!product) {
+        problems.push(`data.categories[${index}].featuredProducts[${featuredIndex}]: unknown product "${id}"`);
+      } else if (!own || (own !== category.id && !ancestorsOf(own).includes(category.id))) {
+        problems.push(`data.categories[${index}].featuredProducts[${featuredIndex}]: "${id}" is not in category "${category.id}"`);
+      }
+    });
+  });
+
+  const checkSpecs = (specs: ProductSpecs | undefined, where: string) => {
+    for (const definition of data.specDefinitions) {
+      const value = specs?.[definition.key];
+      if (definition.type === 'enum' && value !== undefined && !definition.options?.some(option => option.value === value)) {
+        problems.push(`${where}.${definition.key}: "${value}" is not one of the options in specDefinitions`);
+      }
+    }
+    for (const key of Object.keys(specs || {})) {
+      if (!data.specDefinitions.some(definition => definition.key === key)) {
+        problems.push(`${where}.${key}: no spec definition, so it is never shown`);
+      }
+    }
+  };
+
+  const checkPrice = (price: number | undefined, where: string) => {
+    if (price !== undefined && price <= 0) {
+      problems.push(`${where}: must be more than 0`);
+    }
+  };
+
+  // Option and value ids end up in product page URLs (?seatWidth=42).
+  const checkUrlSafe = (id: string, where: string) => {
+    if (!/^[\w-]+$/.test(id)) {
+      problems.push(`${where}: "${id}" may only contain letters, digits, "-" and "_"`);
+    }
+  };
+
+  data.products.forEach((product, index) => {
+    const where = `data.products[${index}] (${product.id})`;
+    if (!product.mainCategory) {
+      problems.push(`${where}: has no mainCategory, so no category filter shows it`);
+    }
+    for (const field of ['mainCategory', 'subCategory'] as const) {
+      const key = product[field];
+      if (key && !parents.has(key)) {
+        problems.push(`${where}.${field}: unknown category "${key}"`);
+      }
+    }
+    if (product.mainCategory && parents.get(product.mainCategory)) {
+      problems.push(`${where}.mainCategory: "${product.mainCategory}" is not a top-level category`);
+    }
+    if (product.subCategory && product.mainCategory && parents.has(product.subCategory)
+      && !ancestorsOf(product.subCategory).includes(product.mainCategory)) {
+      problems.push(`${where}.subCategory: "${product.subCategory}" is not inside "${product.mainCategory}"`);
+    }
+    checkSpecs(product.specs, `${where}.specs`);
+    checkPrice(product.price, `${where}.price`);
+    if (product.price !== undefined && product.priceOnRequest) {
+      problems.push(`${where}: has a price but priceOnRequest hides it; remove one of them`);
+    }
+    for (const field of ['leadTimeDays', 'warrantyMonths'] as const) {
+      const value = product[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        problems.push(`${where}.${field}: expected a whole number, got ${value}`);
+      }
+    }
+    if (product.spinImages && product.spinImages.length < MIN_SPIN_FRAMES) {
+      problems.push(`${where}.spinImages: has ${product.spinImages.length} frames; a 360° view needs at least ${MIN_SPIN_FRAMES}`);
+    }
+    if (product.video && !/\.mp4($|\?)/i.test(product.video)) {
+      problems.push(`${where}.video: "${product.video}" should be an .mp4 file, which every browser can play`);
+    }
+    checkUnique(`${where} option id`, (product.options || []).map(option => option.id));
+    (product.options || []).forEach((option, optionIndex) => {
+      const optionWhere = `${where}.options[${optionIndex}]`;
+      checkUrlSafe(option.id, `${optionWhere}.id`);
+      if (option.values.length < 2) {
+        problems.push(`${optionWhere}: needs at least two values to choose from`);
+      }
+      checkUnique(`${optionWhere} value id`, option.values.map(value => value.id));
+      option.values.forEach((value, valueIndex) => {
+        const valueWhere = `${optionWhere}.values[${valueIndex}]`;
+        checkUrlSafe(value.id, `${valueWhere}.id`);
+        checkSpecs(value.specs, `${valueWhere}.specs`);
+        checkPrice(value.price, `${valueWhere}.price`);
+      });
+    });
+  });
+
+  // Slide buttons link to site paths without the language, which the site adds.
+  data.slides.forEach((slide, index) => {
+    const link = slide.ctaLink;
+    const where = `data.slides[${index}].ctaLink`;
+    if (link === undefined || /^https?:\/\//.test(link)) {
+      return;
+    }
+    const [section, id, subId] = link.split(/[?#]/)[0].split('/').slice(1);
+    if (!link.startsWith('/')) {
+      problems.push(`${where}: "${link}" should start with "/" or be a full https:// URL`);
+    } else if (section in LOCALES) {
+      problems.push(`${where}: "${link}" starts with a language; leave it out so each language links to its own page`);
+    } else if (section === 'products' && id === 'category' && !parents.has(subId)) {
+      problems.push(`${where}: unknown category "${subId}"`);
+    } else if (section === 'products' && id && id !== 'category' && !data.products.some(product => product.id === id)) {
+      problems.push(`${where}: unknown product "${id}"`);
+    }
+  });
+
+  const { booking } = data;
+  const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3));
+  booking.hours.forEach((hours, index) => {
+    const where = `data.booking.hours[${index}]`;
+    if (!Number.isInteger(hours.day) || hours.day < 0 || hours.day > 6) {
+      problems.push(`${where}.day: expected 0 (Sunday) to 6 (Saturday), got ${hours.day}`);
+    }
+    const times = [hours.open, hours.close];
+    if (times.some(time => !/^([01]\d|2[0-3]):[0-5]\d$/.test(time))) {
+      problems.push(`${where}: open and close must be 24-hour "HH:MM" times`);
+    } else if (toMinutes(hours.close) - toMinutes(hours.open) < booking.slotMinutes) {
+      problems.push(`${where}: ${hours.open}–${hours.close} is shorter than one ${booking.slotMinutes}-minute slot`);
+    }
+  });
+  for (const field of ['slotMinutes', 'leadDays', 'horizonDays'] as const) {
+    if (!Number.isInteger(booking[field]) || booking[field] < (field === 'leadDays' ? 0 : 1)) {
+      problems.push(`data.booking.${field}: expected a whole number${field === 'leadDays' ? '' : ' above 0'}, got ${booking[field]}`);
+    }
+  }
+  (booking.closedDates || []).forEach((date, index) => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) {
+      problems.push(`data.booking.closedDates[${index}]: expected a YYYY-MM-DD date, got "${date}"`);
+    }
+  });
+
+  // tel: and wa.me links need the full international number.
+  for (const field of ['phone', 'whatsapp'] as const) {
+    if (!/^\+[1-9]\d{7,14}$/.test(data.contact[field])) {
+      problems.push(`data.contact.${field}: "${data.contact[field]}" should be an international number such as +966505203532`);
+    }
+  }
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/.test(data.contact.email)) {
+    problems.push(`data.contact.email: "${data.contact.email}" is not an email address`);
+  }
+  const placeholders = { general: ['url'], product: ['name', 'model', 'url'] };
+  for (const [message, allowed] of Object.entries(placeholders) as [keyof typeof placeholders, string[]][]) {
+    for (const [lang, template] of Object.entries(data.contact.messages[message])) {
+      for (const [, name] of (template || '').matchAll(/\{(\w+)\}/g)) {
+        if (!allowed.includes(name)) {
+          problems.push(`data.contact.messages.${message}.${lang}: unknown placeholder {${name}}; use ${allowed.map(known => `{${known}}`).join(', ')}`);
+        }
+      }
+    }
+  }
+
+  // Any object with an "en" string is translated text.
+  const checkTranslations = (value: unknown, where: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((entry, index) => checkTranslations(entry, `${where}[${index}]`));
+    } else if (typeof value === 'object' && value !== null) {
+      const record = value as Record<string, unknown>;
+      if (typeof record.en === 'string') {
+        for (const lang of REQUIRED_LANGUAGES) {
+          if (typeof record[lang] !== 'string' || !(record[lang] as string).trim()) {
+            problems.push(`${where}.${lang}: missing translation`);
+          }
+        }
+        return;
+      }
+      for (const [key, entry] of Object.entries(record)) {
+        checkTranslations(entry, `${where}.${key}`);
+      }
+    }
+  };
+  checkTranslations(data, 'data');
+
+  const images = [
+    ...data.slides.map((slide, index) => [`data.slides[${index}].image`, slide.image]),
+    ...data.categories.flatMap((category, index) => category.heroImage ? [[`data.categories[${index}].heroImage`, category.heroImage]] : []),
+    ...data.products.flatMap((product, index) => [
+      [`data.products[${index}].image`, product.image],
+      ...(product.otherImages || []).map((image, imageIndex) => [`data.products[${index}].otherImages[${imageIndex}]`, image]),
+      ...(product.spinImages || []).map((image, imageIndex) => [`data.products[${index}].spinImages[${imageIndex}]`, image]),
+      ...(product.video ? [[`data.products[${index}].video`, product.video]] : []),
+      ...(product.options || []).flatMap((option, optionIndex) => option.values.flatMap((value, valueIndex) =>
+        (value.images || []).map((image, imageIndex) => [`data.products[${index}].options[${optionIndex}].values[${valueIndex}].images[${imageIndex}]`, image])
+      )),
+    ]),
+    ...data.services.map((service, index) => [`data.services[${index}].image`, service.image]),
+    ...data.partners.map((partner, index) => [`data.partners[${index}].logo`, partner.logo]),
+  ];
+  for (const [where, image] of images) {
+    if (!image.trim()) {
+      problems.push(`${where}: empty image path`);
+    } else if (!/^(https?:)?\/\//.test(image)) {
+      // Relative paths are served from public/ by Vite in development and copied into dist/ by the build.
+      const file = path.join(publicDir, image.replace(/^\.?\//, ''));
+      const exists = await fs.stat(file).then(stat => stat.isFile(), () => false);
+      if (!exists) {
+        problems.push(`${where}: "${image}" does not exist (looked for ${path.relative(rootDir, file)})`);
+      }
+    }
+  }
+
+  const featuredCount = data.products.filter(product => product.isFeatured).length;
+  if (featuredCount < FEATURED_RANGE.min || featuredCount > FEATURED_RANGE.max) {
+    problems.push(`${featuredCount} products are featured; feature between ${FEATURED_RANGE.min} and ${FEATURED_RANGE.max}`);
+  }
+  return problems;
+};
@@ -0,0 +1,42 @@
+// Shared helpers for the locale scripts. English is the source catalog: its keys
+// and placeholders define what every other catalog must provide.
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { SOURCE_LANGUAGE } from '../locales/registry.ts';
+
+export const rootDir = path.resolve(import.meta.dirname, '..');
+export const localesDir = path.join(rootDir, 'locales');
+export const SOURCE_LOCALE = SOURCE_LANGUAGE;
+
+export type Catalog = Record<string, string>;
+
+export const readCatalogs = async () => {
+  const files = (await fs.readdir(localesDir)).filter(file => file.endsWith('.json')).sort();
+  const catalogs: Record<string, Catalog> = {};
+  for (const file of files) {
+    catalogs[path.basename(file, '.json')] = JSON.parse(await fs.readFile(path.join(localesDir, file), 'utf8'));
+  }
+  return catalogs;
+};
+
+export const getPlaceholders = (text: string) =>
+  [...new Set([...text.matchAll(/\{(\w+)\}/g)].map(match => match[1]))].sort();
+
+export const renderKeysModule = (source: Catalog) => {
+  const keys = Object.keys(source);
+  const placeholders = keys
+    .map(key => [key, getPlaceholders(source[key])] as const)
+    .filter(([, names]) => names.length > 0);
+  return [
+    `// Generated by scripts/generate-locale-types.ts from locales/${SOURCE_LOCALE}.json. Do not edit by hand.`,
+    '',
+    'export type TranslationKey =',
+    ...keys.map((key, index) => `  | '${key}'${index === keys.length - 1 ? ';' : ''}`),
+    '',
+    '// Placeholder names each message expects in its args.',
+    'export interface TranslationPlaceholders {',
+    ...placeholders.map(([key, names]) => `  ${key}: ${names.map(name => `'${name}'`).join(' | ')};`),
+    '}',
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,56 @@
+// Renders every route in every language to static HTML under dist/, so crawlers
+// and visitors without JavaScript get real content. Run after both vite builds
+// (see the "build" script in package.json).
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { LOCALES, type Language } from '../locales/registry.ts';
+import { parseAppData } from '../data-schema.ts';
+
+const rootDir = path.resolve(import.meta.dirname, '..');
+const distDir = path.join(rootDir, 'dist');
+const serverEntry = path.join(rootDir, 'dist-ssr', 'entry-server.js');
+
+const { render, getRoutePaths, SUPPORTED_LANGUAGES, DEFAULT_LANGUAGE } =
+  (await import(pathToFileURL(serverEntry).href)) as typeof import('../entry-server.tsx');
+
+const template = await fs.readFile(path.join(distDir, 'index.html'), 'utf8');
+const data = parseAppData(JSON.parse(await fs.readFile(path.join(rootDir, 'data.json'), 'utf8')));
+
+const renderPage = (lang: Language, url: string) => {
+  const dir = LOCALES[lang].dir;
+  const { html, head } = render(url, data);
+  return template
+    // Swap the shell's default title and social tags for the ones this page declared.
+    .replace(/\s*<title[^>]*data-page-meta[^>]*>[\s\S]*?<\/title>/, '')
+    .replace(/\s*<(meta|link)[^>]*data-page-meta[^>]*>/g, '')
+    .replace('</head>', `    ${head}\n</head>`)
+    .replace(/<html lang="[^"]*">/, `<html lang="${lang}" dir="${dir}">`)
+    .replace('<body>', `<body class="${dir === 'rtl' ? 'rtl' : ''}">`)
+    // The splash screen only covers the client-side data fetch, which pre-rendered pages skip.
+    .replace(/<div id="splash-screen">[\s\S]*?<\/div>\s*/, '')
+    .replace('<div id="root"></div>', `<div id="root" class="visible">${html}</div>`);
+};
+
+let pageCount = 0;
+for (const lang of SUPPORTED_LANGUAGES) {
+  for (const routePath of getRoutePaths(data)) {
+    const url = `/${lang}${routePath === '/' ? '' : routePath}`;
+    const outFile = path.join(distDir, url, 'index.html');
+    await fs.mkdir(path.dirname(outFile), { recursive: true });
+    await fs.writeFile(outFile, renderPage(lang, url));
+    pageCount++;
+  }
+}
+
+// The bare domain keeps the client-side shell, which picks a language and redirects;
+// without JavaScript it falls back to the default language.
+await fs.writeFile(
+  path.join(distDir, 'index.html'),
+  template.replace('</head>', `  <noscript><meta http-equiv="refresh" content="0; url=/${DEFAULT_LANGUAGE}/"></noscript>\n</head>`)
+);
+await fs.writeFile(path.join(distDir, '404.html'), template);
+
+await fs.copyFile(path.join(rootDir, 'data.json'), path.join(distDir, 'data.json'));
+
+console.log(`Pre-rendered ${pageCount} pages into ${path.relative(rootDir, distDir)}/`);
@@ -0,0 +1,47 @@
+// Local stand-in for the repair ticket system behind the /track page. Serves the
+// tickets in scripts/mock-tickets.json (or TICKETS_FILE) with the API that
+// createHttpTicketSource in tickets.ts expects. Run `npm run tickets` alongside
+// `VITE_TICKETS_URL=/api/tickets npm run dev`; Vite proxies /api/tickets to this server.
+//
+//   POST /api/tickets/lookup  { reference, phone } -> RepairTicket | 404
+//
+// The file is read on every request, so edits show up without a restart.
+import fs from 'node:fs/promises';
+import http from 'node:http';
+import path from 'node:path';
+import { createMemoryTicketSource, type StoredTicket } from '../tickets.ts';
+import { readBody, sendJson } from './http-json.ts';
+
+const PORT = Number(process.env.TICKETS_PORT) || 3002;
+const ticketsFile = path.resolve(process.env.TICKETS_FILE || path.join(import.meta.dirname, 'mock-tickets.json'));
+// A reference and a phone number are short; anything bigger is not a lookup.
+const MAX_BODY_BYTES = 1024;
+
+const server = http.createServer(async (request, response) => {
+  try {
+    if (request.url === '/api/tickets/lookup' && request.method === 'POST') {
+      const { reference, phone } = await readBody(request, MAX_BODY_BYTES) as { reference?: unknown; phone?: unknown };
+      if (typeof reference !== 'string' || typeof phone !== 'string') {
+        sendJson(response, 400, { error: 'reference and phone are required' });
+        return;
+      }
+      const tickets = JSON.parse(await fs.readFile(ticketsFile, 'utf8')) as StoredTicket[];
+      const ticket = await createMemoryTicketSource(tickets).find(reference, phone);
+      if (ticket) {
+        sendJson(response, 200, ticket);
+      } else {
+        sendJson(response, 404, { error: 'No ticket with this reference and phone number' });
+      }
+      return;
+    }
+
+    sendJson(response, 404, { error: 'Not found' });
+  } catch (error) {
+    console.error(error);
+    sendJson(response, 500, { error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`Ticket server listening on http://127.0.0.1:${PORT} with tickets from ${path.relative(process.cwd(), ticketsFile)}`);
+});
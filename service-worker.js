@@ -0,0 +1,97 @@
+// Service worker for the built site; scripts/generate-service-worker.ts copies it
+// to dist/sw.js with the list of files to precache filled in. It keeps the site
+// usable offline: the app shell and data.json are cached on install, pages and
+// images as they are viewed. Form submissions are queued by the page itself (see
+// submitForm in index.tsx), since not every browser supports background sync.
+const CACHE_VERSION = /* CACHE_VERSION */ 'dev';
+const PRECACHE_URLS = /* PRECACHE_URLS */ [];
+
+const PRECACHE = `precache-${CACHE_VERSION}`;
+const PAGES = 'pages';
+const IMAGES = 'images';
+// Versioned like the precache: hashed assets change name with every deploy, so
+// the previous deploy's copies would otherwise stay cached forever.
+const STATIC = `static-${CACHE_VERSION}`;
+const CURRENT_CACHES = [PRECACHE, PAGES, IMAGES, STATIC];
+// Oldest viewed images are dropped beyond this, so the cache can't grow without bound.
+const MAX_IMAGES = 300;
+// Served for pages that were never visited: the client-side shell renders any route.
+const OFFLINE_SHELL = '/404.html';
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(PRECACHE)
+      .then(cache => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => !CURRENT_CACHES.includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+};
+
+// Fresh when online; the last cached copy (or the fallback) when not.
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(cacheName);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request) || (fallbackUrl && await caches.match(fallbackUrl));
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+};
+
+// For files whose URL changes with their content (hashed assets, generated images)
+// and third-party files that rarely change.
+const cacheFirst = async (request, cacheName, maxEntries) => {
+  const cached = await caches.match(request);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  // Cross-origin images without CORS come back opaque (status 0); they still display from the cache.
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+    if (maxEntries) {
+      trimCache(cacheName, maxEntries);
+    }
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.pathname.startsWith('/api/')) {
+    return;
+  }
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, PAGES, OFFLINE_SHELL));
+  } else if (url.origin === self.location.origin && url.pathname === '/data.json') {
+    event.respondWith(networkFirst(request, PRECACHE));
+  } else if (request.destination === 'image') {
+    event.respondWith(cacheFirst(request, IMAGES, MAX_IMAGES));
+  } else if (url.pathname.startsWith('/assets/') || url.hostname.endsWith('fonts.googleapis.com') || url.hostname.endsWith('fonts.gstatic.com')) {
+    event.respondWith(cacheFirst(request, STATIC));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request, STATIC));
+  }
+});
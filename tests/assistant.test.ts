@@ -0,0 +1,233 @@
+import { after, afterEach, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { once } from 'node:events';
+import net from 'node:net';
+import path from 'node:path';
+import {
+  citedProducts, createHttpAssistantModel, createStubAssistantModel, groundAnswer, withFallback, MAX_MESSAGE_LENGTH, MAX_MESSAGES, MAX_SUGGESTIONS,
+  type AssistantAnswer, type AssistantContext, type AssistantMessage, type AssistantModel,
+} from '../assistant.ts';
+
+const rootDir = path.resolve(import.meta.dirname, '..');
+
+const PHRASES = {
+  en: { found: 'These products match.', notFound: 'Nothing matches.' },
+  ar: { found: 'هذه المنتجات تطابق سؤالك.', notFound: 'لا يوجد منتج مطابق.' },
+};
+
+const stub = createStubAssistantModel(lang => lang === 'ar' ? PHRASES.ar : PHRASES.en);
+
+const CONTEXTS: Record<'en' | 'ar', AssistantContext> = {
+  en: {
+    lang: 'en',
+    languageName: 'English',
+    products: [
+      {
+        id: 'alhena', path: '/products/alhena', name: 'Alhena', manufacturer: 'Offcarr', category: 'Ultra lightweight wheelchair',
+        description: 'A folding titanium wheelchair.', features: ['Folds for travel'], specs: { 'Frame weight': '8.5 kg', 'Foldable frame': 'Yes' },
+      },
+      {
+        id: 'eos', path: '/products/eos', name: 'EOS', manufacturer: 'Offcarr', category: 'Ultra lightweight wheelchair',
+        description: 'A rigid titanium wheelchair.', features: ['Rigid frame'], specs: { 'Frame weight': '6.5 kg' },
+      },
+      {
+        id: 'un1005', path: '/products/un1005', name: 'Steel Wheelchair UN1005', manufacturer: 'UN', category: 'Standard Wheelchair',
+        description: 'A sturdy steel wheelchair.', features: [], specs: { 'Frame weight': '18 kg', 'Foldable frame': 'Yes' },
+      },
+      {
+        id: 'un4003', path: '/products/un4003', name: 'Commode Chair UN4003', manufacturer: 'UN', category: 'Bathroom Chair',
+        description: 'A commode chair for the bathroom and shower.', features: [], specs: {},
+      },
+    ],
+    services: [],
+    faq: [],
+  },
+  ar: {
+    lang: 'ar',
+    languageName: 'Arabic',
+    products: [
+      {
+        id: 'alhena', path: '/products/alhena', name: 'ألهينا', manufacturer: 'أوفكار', category: 'كرسي متحرك خفيف الوزن جداً',
+        description: 'كرسي متحرك قابل للطي من التيتانيوم.', features: [], specs: { 'وزن الإطار': '8.5 كجم' },
+      },
+      {
+        id: 'eos', path: '/products/eos', name: 'إيوس', manufacturer: 'أوفكار', category: 'كرسي متحرك خفيف الوزن جداً',
+        description: 'كرسي متحرك ثابت الإطار من التيتانيوم.', features: [], specs: { 'وزن الإطار': '6.5 كجم' },
+      },
+      {
+        id: 'un1005', path: '/products/un1005', name: 'كرسي متحرك فولاذي UN1005', manufacturer: 'UN', category: 'كرسي متحرك عادي',
+        description: 'كرسي متحرك متين من الفولاذ.', features: [], specs: { 'وزن الإطار': '18 كجم' },
+      },
+      {
+        id: 'un4003', path: '/products/un4003', name: 'كرسي حمام UN4003', manufacturer: 'UN', category: 'كرسي حمام',
+        description: 'كرسي للحمام والاستحمام.', features: [], specs: {},
+      },
+    ],
+    services: [],
+    faq: [],
+  },
+};
+
+const ask = (model: AssistantModel, context: AssistantContext, question: string) =>
+  model.answer(context, [{ role: 'user', text: question }]);
+
+describe('createStubAssistantModel', () => {
+  test('ranks products by the English question words they match', async () => {
+    const answer = await ask(stub, CONTEXTS.en, 'Which lightweight chair folds for a car boot?');
+    assert.equal(answer.text, PHRASES.en.found);
+    assert.equal(answer.handoff, 'quote');
+    assert.equal(answer.productIds[0], 'alhena');
+    assert.ok(!answer.productIds.includes('un4003'), 'a word every product shares is not enough');
+  });
+
+  test('matches Arabic questions without the definite article', async () => {
+    const bathroom = await ask(stub, CONTEXTS.ar, 'ماذا يمكنني أن أستخدم في الحمام؟');
+    assert.deepEqual(bathroom, { text: PHRASES.ar.found, productIds: ['un4003'], handoff: 'quote' });
+    const titanium = await ask(stub, CONTEXTS.ar, 'هل لديكم كرسي خفيف من التيتانيوم؟');
+    assert.deepEqual(titanium.productIds.slice(0, 2).sort(), ['alhena', 'eos']);
+  });
+
+  test('hands questions it cannot match to the contact form', async () => {
+    assert.deepEqual(await ask(stub, CONTEXTS.en, 'Do you sell hearing aids?'), { text: PHRASES.en.notFound, productIds: [], handoff: 'contact' });
+  });
+
+  test('answers the latest question the same way every time', async () => {
+    const messages: AssistantMessage[] = [
+      { role: 'user', text: 'Something for the bathroom?' },
+      { role: 'assistant', text: PHRASES.en.found },
+      { role: 'user', text: 'And a folding wheelchair?' },
+    ];
+    const first = await stub.answer(CONTEXTS.en, messages);
+    assert.deepEqual(await stub.answer(CONTEXTS.en, messages), first);
+    assert.ok(!first.productIds.includes('un4003'));
+  });
+});
+
+describe('groundAnswer and citedProducts', () => {
+  test('drop made-up ids and duplicates and cap the suggestions', () => {
+    const answer = groundAnswer(CONTEXTS.en, { text: '', productIds: ['un4003', 'made-up', 'un4003', 'eos', 'alhena', 'un1005'], handoff: 'quote' });
+    assert.deepEqual(answer.productIds, ['un4003', 'eos', 'alhena']);
+    assert.equal(answer.productIds.length, MAX_SUGGESTIONS);
+  });
+
+  test('cite products with their page paths in the answer order', () => {
+    const answer: AssistantAnswer = { text: '', productIds: ['eos', 'alhena'], handoff: 'quote' };
+    assert.deepEqual(citedProducts(CONTEXTS.ar, answer).map(product => [product.name, product.path]), [
+      ['إيوس', '/products/eos'],
+      ['ألهينا', '/products/alhena'],
+    ]);
+  });
+});
+
+describe('withFallback', () => {
+  const realFetch = globalThis.fetch;
+  const realConsoleError = console.error;
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+    console.error = realConsoleError;
+  });
+
+  const remote = (answer: AssistantAnswer): AssistantModel => ({ answer: async () => answer });
+  const failing: AssistantModel = { answer: async () => { throw new Error('quota exceeded'); } };
+
+  test('uses the primary model while it answers', async () => {
+    const answer: AssistantAnswer = { text: 'EOS is the lightest.', productIds: ['eos'], handoff: 'quote' };
+    assert.deepEqual(await ask(withFallback(remote(answer), stub), CONTEXTS.en, 'lightest chair?'), answer);
+  });
+
+  test('answers with the stub when the primary model throws', async () => {
+    console.error = () => {};
+    const question = 'Something for the bathroom?';
+    assert.deepEqual(await ask(withFallback(failing, stub), CONTEXTS.en, question), await ask(stub, CONTEXTS.en, question));
+  });
+
+  test('answers with the stub when the assistant server fails', async () => {
+    console.error = () => {};
+    globalThis.fetch = async () => new Response(JSON.stringify({ error: 'The assistant model is unavailable' }), { status: 502 });
+    const answer = await ask(withFallback(createHttpAssistantModel('/api/assistant'), stub), CONTEXTS.ar, 'كرسي للحمام');
+    assert.deepEqual(answer, { text: PHRASES.ar.found, productIds: ['un4003'], handoff: 'quote' });
+  });
+});
+
+describe('createHttpAssistantModel', () => {
+  const realFetch = globalThis.fetch;
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test('posts the language and conversation, never the catalog, and grounds the reply', async () => {
+    let body: unknown;
+    globalThis.fetch = async (_url, init) => {
+      body = JSON.parse(String(init?.body));
+      return new Response(JSON.stringify({ text: 'Try Alhena.', productIds: ['alhena', 'made-up'], handoff: 'quote' }), { status: 200 });
+    };
+    const messages: AssistantMessage[] = [{ role: 'user', text: 'A folding chair?' }];
+    assert.deepEqual(await createHttpAssistantModel('/api/assistant').answer(CONTEXTS.en, messages), {
+      text: 'Try Alhena.',
+      productIds: ['alhena'],
+      handoff: 'quote',
+    });
+    assert.deepEqual(body, { lang: 'en', messages });
+  });
+
+  test('sends the latest messages that fit the server limits, starting with a question', async () => {
+    let body: { messages: AssistantMessage[] } | undefined;
+    globalThis.fetch = async (_url, init) => {
+      body = JSON.parse(String(init?.body));
+      return new Response(JSON.stringify({ text: 'Try Alhena.', productIds: [], handoff: null }), { status: 200 });
+    };
+    const messages: AssistantMessage[] = Array.from({ length: MAX_MESSAGES + 3 }, (_, index) => ({
+      role: index % 2 === 0 ? 'user' : 'assistant',
+      text: index === MAX_MESSAGES + 2 ? 'x'.repeat(MAX_MESSAGE_LENGTH + 10) : `message ${index}`,
+    }));
+    await createHttpAssistantModel('/api/assistant').answer(CONTEXTS.en, messages);
+    assert.equal(body?.messages.length, MAX_MESSAGES - 1);
+    assert.equal(body?.messages[0].role, 'user');
+    assert.equal(body?.messages.at(-1)?.text.length, MAX_MESSAGE_LENGTH);
+  });
+
+  test('rejects replies in an unexpected shape', async () => {
+    globalThis.fetch = async () => new Response(JSON.stringify({ answer: 'Try Alhena.' }), { status: 200 });
+    await assert.rejects(createHttpAssistantModel('/api/assistant').answer(CONTEXTS.en, [{ role: 'user', text: 'A folding chair?' }]), /unexpected shape/);
+  });
+});
+
+describe('scripts/assistant-server.ts', () => {
+  let server: ChildProcess;
+  let url: string;
+
+  const freePort = async () => {
+    const probe = net.createServer().listen(0, '127.0.0.1');
+    await once(probe, 'listening');
+    const { port } = probe.address() as net.AddressInfo;
+    probe.close();
+    return port;
+  };
+
+  before(async () => {
+    const port = await freePort();
+    url = `http://127.0.0.1:${port}/api/assistant`;
+    server = spawn(process.execPath, ['--import', 'tsx', path.join(rootDir, 'scripts/assistant-server.ts')], {
+      env: { ...process.env, ASSISTANT_PORT: String(port), ASSISTANT_RATE_LIMIT: '3', GEMINI_API_KEY: 'test-key' },
+      stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    await once(server.stdout!, 'data');
+  });
+
+  after(() => {
+    server.kill();
+  });
+
+  const post = (body: unknown) => fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+  test('rejects unknown languages and oversized conversations, then limits the rate', async () => {
+    const question = [{ role: 'user', text: 'A folding chair?' }];
+    assert.equal((await post({ lang: 'xx', messages: question })).status, 400);
+    assert.equal((await post({ lang: 'toString', messages: question })).status, 400);
+    assert.equal((await post({ lang: 'en', messages: Array(MAX_MESSAGES + 1).fill(question[0]) })).status, 400);
+    const limited = await post({ lang: 'en', messages: question });
+    assert.equal(limited.status, 429);
+    assert.equal(limited.headers.get('Retry-After'), '60');
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { productToRow, rowToProduct } from '../scripts/catalog-sheet.ts';
+import type { Product } from '../data-schema.ts';
+
+const PRODUCT: Product = {
+  id: 'alhena',
+  name: { en: 'Alhena', ar: 'ألهينا' },
+  image: 'https://images.example/alhena.jpg',
+  otherImages: ['https://images.example/alhena-side.jpg'],
+  video: 'https://videos.example/alhena.mp4',
+  spinImages: ['https://images.example/alhena-0.jpg', 'https://images.example/alhena-1.jpg', 'https://images.example/alhena-2.jpg'],
+  manufacturer: { en: 'Offcarr', ar: 'أوفكار' },
+  category: { en: 'Ultra lightweight wheelchair', ar: 'كرسي متحرك خفيف الوزن جداً' },
+  shortDescription: { en: 'A folding titanium wheelchair.', ar: 'كرسي متحرك قابل للطي من التيتانيوم.' },
+  countryOfOrigin: { en: 'Italy', ar: 'إيطاليا' },
+  features: [{ en: 'Folds for travel', ar: 'يطوى للسفر' }],
+};
+
+describe('productToRow and rowToProduct', () => {
+  test('carry the video and 360° frames through an export and import', () => {
+    const problems: string[] = [];
+    const product = rowToProduct(productToRow(PRODUCT), [], problems, 'Row 2');
+    assert.deepEqual(problems, []);
+    assert.equal(product.video, PRODUCT.video);
+    assert.deepEqual(product.spinImages, PRODUCT.spinImages);
+    assert.deepEqual(product.otherImages, PRODUCT.otherImages);
+  });
+
+  test('leave out media columns that are empty', () => {
+    const { video: _video, spinImages: _spinImages, ...plain } = PRODUCT;
+    const product = rowToProduct(productToRow(plain), [], [], 'Row 2');
+    assert.ok(!('video' in product));
+    assert.ok(!('spinImages' in product));
+  });
+});
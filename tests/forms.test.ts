@@ -0,0 +1,131 @@
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createWebhookAdapter, isHurriedSubmission, isSpamSubmission, isValidEmail, normalizeSaudiMobile, submitWithRetries,
+  ELAPSED_FIELD, HONEYPOT_FIELD, MIN_FILL_TIME_MS, SUBMIT_ATTEMPTS,
+  type FormAdapter, type SubmitResult,
+} from '../forms.ts';
+
+describe('normalizeSaudiMobile', () => {
+  test('accepts local, international and Arabic-digit formats', () => {
+    for (const phone of ['0505203532', '050 520 3532', '+966505203532', '+966 50 520 3532', '00966505203532', '966505203532', '505203532', '(050) 520-3532', '٠٥٠٥٢٠٣٥٣٢', '۰۵۰۵۲۰۳۵۳۲']) {
+      assert.equal(normalizeSaudiMobile(phone), '+966505203532', phone);
+    }
+  });
+
+  test('rejects landlines, other countries and wrong lengths', () => {
+    for (const phone of ['', '0112345678', '+971505203532', '050520353', '05052035321', '+9660505203532', 'phone']) {
+      assert.equal(normalizeSaudiMobile(phone), null, phone);
+    }
+  });
+});
+
+describe('isValidEmail', () => {
+  test('accepts ordinary addresses, ignoring surrounding spaces', () => {
+    assert.ok(isValidEmail('Customer@woe.sa'));
+    assert.ok(isValidEmail(' name.surname+quote@example.com.sa '));
+  });
+
+  test('rejects addresses without a user, domain or top-level domain', () => {
+    for (const email of ['', 'woe.sa', '@woe.sa', 'customer@', 'customer@woe', 'customer@woe.s', 'a b@woe.sa']) {
+      assert.equal(isValidEmail(email), false, email);
+    }
+  });
+});
+
+describe('isSpamSubmission and isHurriedSubmission', () => {
+  test('drop only a filled honeypot', () => {
+    assert.equal(isSpamSubmission({ [HONEYPOT_FIELD]: 'https://spam.example', [ELAPSED_FIELD]: 60_000 }), true);
+    assert.equal(isSpamSubmission({ [HONEYPOT_FIELD]: '', [ELAPSED_FIELD]: 60_000 }), false);
+  });
+
+  test('send an autofilled form sent within the minimum fill time, flagged as hurried', () => {
+    const autofilled = { name: 'Sara', email: 'sara@example.com', [HONEYPOT_FIELD]: '', [ELAPSED_FIELD]: 800 };
+    assert.equal(isSpamSubmission(autofilled), false);
+    assert.equal(isHurriedSubmission(autofilled), true);
+    assert.equal(isHurriedSubmission({ ...autofilled, [ELAPSED_FIELD]: MIN_FILL_TIME_MS }), false);
+    assert.equal(isHurriedSubmission({ name: 'Sara' }), true);
+  });
+});
+
+describe('submitWithRetries', () => {
+  const noWait = async () => {};
+
+  const adapterReturning = (...outcomes: (SubmitResult | Error)[]) => {
+    const adapter = {
+      calls: 0,
+      submit: async () => {
+        const outcome = outcomes[Math.min(adapter.calls++, outcomes.length - 1)];
+        if (outcome instanceof Error) {
+          throw outcome;
+        }
+        return outcome;
+      },
+    };
+    return adapter satisfies FormAdapter;
+  };
+
+  test('retries while the backend is unavailable, waiting longer each time', async () => {
+    const adapter = adapterReturning({ ok: false, retryable: true }, { ok: false, retryable: true }, { ok: true });
+    const waits: number[] = [];
+    assert.deepEqual(await submitWithRetries(adapter, {}, async ms => { waits.push(ms); }), { ok: true });
+    assert.equal(adapter.calls, 3);
+    assert.deepEqual(waits, [1000, 2000]);
+  });
+
+  test('retries network failures and throws after the last attempt', async () => {
+    const adapter = adapterReturning(new TypeError('Failed to fetch'));
+    await assert.rejects(submitWithRetries(adapter, {}, noWait), TypeError);
+    assert.equal(adapter.calls, SUBMIT_ATTEMPTS);
+  });
+
+  test('returns the last retryable result once attempts run out', async () => {
+    const adapter = adapterReturning({ ok: false, retryable: true });
+    assert.deepEqual(await submitWithRetries(adapter, {}, noWait), { ok: false, retryable: true });
+    assert.equal(adapter.calls, SUBMIT_ATTEMPTS);
+  });
+
+  describe('with the webhook adapter', () => {
+    const realFetch = globalThis.fetch;
+    afterEach(() => {
+      globalThis.fetch = realFetch;
+    });
+
+    const respondWith = (...responses: [number, unknown][]) => {
+      const calls: string[] = [];
+      globalThis.fetch = async url => {
+        const [status, body] = responses[Math.min(calls.length, responses.length - 1)];
+        calls.push(String(url));
+        return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+      };
+      return calls;
+    };
+
+    test('stops at a 422 and returns its field errors', async () => {
+      const calls = respondWith([422, { message: 'Check the form', errors: { phone: 'Not a mobile number' } }]);
+      assert.deepEqual(await submitWithRetries(createWebhookAdapter('/api/forms'), { phone: '0112345678' }, noWait), {
+        ok: false,
+        errorMessage: 'Check the form',
+        fieldErrors: { phone: 'Not a mobile number' },
+        retryable: false,
+      });
+      assert.equal(calls.length, 1);
+    });
+
+    test('ignores error bodies in an unexpected shape', async () => {
+      respondWith([400, { message: 42, errors: ['phone'] }]);
+      assert.deepEqual(await submitWithRetries(createWebhookAdapter('/api/forms'), {}, noWait), {
+        ok: false,
+        errorMessage: undefined,
+        fieldErrors: undefined,
+        retryable: false,
+      });
+    });
+
+    test('retries a 503 and a 429', async () => {
+      const calls = respondWith([503, {}], [429, {}], [200, {}]);
+      assert.deepEqual(await submitWithRetries(createWebhookAdapter('/api/forms'), {}, noWait), { ok: true });
+      assert.equal(calls.length, 3);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { once } from 'node:events';
+import net from 'node:net';
+import path from 'node:path';
+import { createHttpTicketSource, createMemoryTicketSource, normalizePhone, normalizeReference, type StoredTicket } from '../tickets.ts';
+
+const rootDir = path.resolve(import.meta.dirname, '..');
+
+const TICKET: StoredTicket = {
+  reference: 'WOE-261012-7KQ4',
+  phone: '0500000001',
+  status: 'diagnosed',
+  history: [
+    { status: 'received', at: '2026-10-12T10:15:00+03:00' },
+    { status: 'diagnosed', at: '2026-10-13T13:40:00+03:00' },
+  ],
+};
+
+describe('normalizeReference and normalizePhone', () => {
+  test('ignore case, spacing and Arabic-Indic digits', () => {
+    assert.equal(normalizeReference(' woe-٢٦١٠١٢-7kq4 '), 'WOE-261012-7KQ4');
+    for (const phone of ['0500000001', '+966 50 000 0001', '00966500000001', '٠٥٠٠٠٠٠٠٠١']) {
+      assert.equal(normalizePhone(phone), '500000001', phone);
+    }
+  });
+});
+
+describe('createMemoryTicketSource', () => {
+  const source = createMemoryTicketSource([TICKET]);
+
+  test('finds a ticket by reference and phone in any format', async () => {
+    const ticket = await source.find('woe-261012-7kq4', '+966 50 000 0001');
+    assert.equal(ticket?.reference, TICKET.reference);
+    assert.equal(ticket?.status, 'diagnosed');
+  });
+
+  test('never returns the phone number', async () => {
+    const ticket = await source.find(TICKET.reference, TICKET.phone);
+    assert.ok(ticket);
+    assert.ok(!('phone' in ticket));
+  });
+
+  test('gives not found for a wrong phone or reference', async () => {
+    assert.equal(await source.find(TICKET.reference, '0500000002'), null);
+    assert.equal(await source.find('WOE-261012-0000', TICKET.phone), null);
+  });
+});
+
+describe('createHttpTicketSource', () => {
+  const realFetch = globalThis.fetch;
+  after(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  const respondWith = (status: number, body: unknown) => {
+    const requests: { url: string; body: unknown }[] = [];
+    globalThis.fetch = async (url, init) => {
+      requests.push({ url: String(url), body: JSON.parse(String(init?.body)) });
+      return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+    };
+    return requests;
+  };
+
+  test('posts the normalized reference and phone to <baseUrl>/lookup', async () => {
+    const { phone: _phone, ...ticket } = TICKET;
+    const requests = respondWith(200, ticket);
+    assert.deepEqual(await createHttpTicketSource('https://tickets.example').find('woe-261012-7kq4', '+966 50 000 0001'), ticket);
+    assert.deepEqual(requests, [{ url: 'https://tickets.example/lookup', body: { reference: 'WOE-261012-7KQ4', phone: '500000001' } }]);
+  });
+
+  test('maps 404 to not found', async () => {
+    respondWith(404, { error: 'No ticket with this reference and phone number' });
+    assert.equal(await createHttpTicketSource('https://tickets.example').find(TICKET.reference, TICKET.phone), null);
+  });
+
+  test('rejects on other errors and unexpected responses', async () => {
+    respondWith(500, { error: 'down' });
+    await assert.rejects(createHttpTicketSource('https://tickets.example').find(TICKET.reference, TICKET.phone), /HTTP 500/);
+    respondWith(200, { status: 'lost' });
+    await assert.rejects(createHttpTicketSource('https://tickets.example').find(TICKET.reference, TICKET.phone), /unexpected response/);
+  });
+});
+
+describe('scripts/ticket-server.ts', () => {
+  let server: ChildProcess;
+  let baseUrl: string;
+
+  const freePort = async () => {
+    const probe = net.createServer().listen(0, '127.0.0.1');
+    await once(probe, 'listening');
+    const { port } = probe.address() as net.AddressInfo;
+    probe.close();
+    return port;
+  };
+
+  before(async () => {
+    const port = await freePort();
+    baseUrl = `http://127.0.0.1:${port}/api/tickets`;
+    server = spawn(process.execPath, ['--import', 'tsx', path.join(rootDir, 'scripts/ticket-server.ts')], {
+      env: { ...process.env, TICKETS_PORT: String(port) },
+      stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    await once(server.stdout!, 'data');
+  });
+
+  after(() => {
+    server.kill();
+  });
+
+  test('serves the sample tickets to the HTTP source', async () => {
+    const source = createHttpTicketSource(baseUrl);
+    const ticket = await source.find('WOE-261012-7KQ4', '050 000 0001');
+    assert.equal(ticket?.status, 'awaitingParts');
+    assert.ok(!('phone' in ticket!));
+    assert.equal(await source.find('WOE-261012-7KQ4', '0599999999'), null);
+  });
+});
@@ -0,0 +1,80 @@
+// Repair tickets as the /track page sees them, and the sources it can read them
+// from. The site uses createHttpTicketSource; scripts/ticket-server.ts serves the
+// same API from a JSON file with createMemoryTicketSource for development.
+import type { LocalizedString } from './data-schema.ts';
+import { toLatinDigits } from './forms.ts';
+
+// In the order a repair goes through them.
+export const TICKET_STATUSES = ['received', 'diagnosed', 'awaitingParts', 'ready', 'delivered'] as const;
+export type TicketStatus = typeof TICKET_STATUSES[number];
+
+export interface TicketEvent {
+  status: TicketStatus;
+  // ISO 8601 timestamp.
+  at: string;
+  // Shown under the step, e.g. which part is on order.
+  note?: LocalizedString;
+}
+
+export interface RepairTicket {
+  reference: string;
+  status: TicketStatus;
+  // Free text such as "Küschall K-Series".
+  chair?: string;
+  // ISO 8601 date.
+  estimatedReady?: string;
+  // Oldest first; statuses that were skipped have no event.
+  history: TicketEvent[];
+}
+
+// A ticket as stored by the source; the phone number is never sent to the browser.
+export interface StoredTicket extends RepairTicket {
+  phone: string;
+}
+
+export interface TicketSource {
+  // Resolves with null when no ticket has this reference and phone number.
+  find(reference: string, phone: string): Promise<RepairTicket | null>;
+}
+
+export const normalizeReference = (reference: string) => toLatinDigits(reference).trim().toUpperCase();
+
+// The last nine digits, so "+966 50 520 3532", "00966505203532" and "0505203532" match.
+export const normalizePhone = (phone: string) => toLatinDigits(phone).replace(/\D/g, '').slice(-9);
+
+export const createMemoryTicketSource = (tickets: StoredTicket[]): TicketSource => ({
+  find: async (reference, phone) => {
+    const match = tickets.find(ticket =>
+      normalizeReference(ticket.reference) === normalizeReference(reference)
+      && normalizePhone(ticket.phone) === normalizePhone(phone)
+    );
+    if (!match) {
+      return null;
+    }
+    const { phone: _phone, ...ticket } = match;
+    return ticket;
+  },
+});
+
+// POST <baseUrl>/lookup { reference, phone } -> RepairTicket | 404. The phone
+// number goes in the body rather than the URL so it stays out of server logs.
+export const createHttpTicketSource = (baseUrl: string): TicketSource => ({
+  find: async (reference, phone) => {
+    const response = await fetch(`${baseUrl}/lookup`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify({ reference: normalizeReference(reference), phone: normalizePhone(phone) }),
+    });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Ticket lookup failed: HTTP ${response.status}`);
+    }
+    const ticket = await response.json() as RepairTicket;
+    if (!TICKET_STATUSES.includes(ticket.status) || !Array.isArray(ticket.history)) {
+      throw new Error('Ticket lookup returned an unexpected response');
+    }
+    return ticket;
+  },
+});
@@ -1,19 +1,27 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+// No API keys are defined into the bundle: the product assistant's Gemini key stays
+// with scripts/assistant-server.ts.
+export default defineConfig(() => {
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The /admin pages talk to scripts/admin-server.ts (`npm run admin`) and, with
+        // VITE_TICKETS_URL=/api/tickets, VITE_FORM_WEBHOOK=/api/forms and
+        // VITE_ASSISTANT_URL=/api/assistant, /track, the forms and the product assistant to
+        // scripts/ticket-server.ts (`npm run tickets`), scripts/form-server.ts (`npm run forms`)
+        // and scripts/assistant-server.ts (`npm run assistant`). More specific paths come first.
+        proxy: {
+          '/api/tickets': 'http://127.0.0.1:3002',
+          '/api/forms': 'http://127.0.0.1:3003',
+          '/api/assistant': 'http://127.0.0.1:3004',
+          '/api': 'http://127.0.0.1:3001',
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),